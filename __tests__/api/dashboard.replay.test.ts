@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ *
+ * Runs the real dashboard route, unmocked, against the GitHub responses
+ * captured in __tests__/fixtures/github (GITHUB_MODE=replay). Nothing here
+ * touches the network; a request without a fixture fails the test.
+ *
+ * The fixtures cover acme/widgets: the org's repo list, org members, repo
+ * collaborators, open, merged and closed PRs, CODEOWNERS and the files of
+ * unassigned PRs. To
+ * re-capture them after a query changes, run the route with
+ * GITHUB_MODE=record against a token that can see the repo.
+ */
+
+import { NextRequest } from 'next/server';
+
+process.env.GITHUB_MODE = 'replay';
+process.env.GITHUB_FIXTURES_DIR = '__tests__/fixtures/github';
+process.env.ORGS = 'acme';
+process.env.SNAPSHOT_INTERVAL_MINUTES = '0';
+delete process.env.GITHUB_TOKEN;
+delete process.env.GITHUB_TOKENS;
+
+global.fetch = jest.fn(() => Promise.reject(new Error('network access in replay mode')));
+
+// Lookback windows are relative to now; pin the clock to when the data was captured
+beforeAll(() => {
+  jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z'), advanceTimers: true });
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
+async function getDashboard(query: string) {
+  // Imported after the env above so config picks up replay mode
+  const { GET } = await import('@/app/api/dashboard/route');
+  return GET(new NextRequest(`http://localhost/api/dashboard?${query}`));
+}
+
+describe('GET /api/dashboard (replay)', () => {
+  it('builds the dashboard from recorded responses only', async () => {
+    const res = await getDashboard('repos=acme/widgets');
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(body.prs.map((pr: { number: number }) => pr.number)).toEqual([101, 102, 103, 104]);
+  });
+
+  it('classifies authors from recorded members and collaborators', async () => {
+    const body = await (await getDashboard('repos=acme/widgets')).json();
+    const authorTypes = Object.fromEntries(body.prs.map((pr: { authorLogin: string; authorType: string }) => [pr.authorLogin, pr.authorType]));
+
+    expect(authorTypes).toEqual({ dave: 'community', erin: 'community', alice: 'employee', carol: 'collaborator' });
+    expect(body.metrics.openCommunityPrs).toBe(2);
+  });
+
+  it('takes the first response from reviews and comments alike', async () => {
+    const body = await (await getDashboard('repos=acme/widgets')).json();
+    const byNumber = Object.fromEntries(body.prs.map((pr: { number: number }) => [pr.number, pr]));
+
+    expect(byNumber[101]).toMatchObject({ firstHumanResponseAt: '2026-10-14T15:00:00Z', firstResponseType: 'issue_comment' });
+    expect(byNumber[102]).toMatchObject({ firstResponseType: 'review' });
+    expect(byNumber[104]).toMatchObject({ firstHumanResponseAt: '2026-10-18T09:00:00Z', firstResponseType: 'review_comment' });
+  });
+
+  it('reports community PRs closed without review', async () => {
+    const body = await (await getDashboard('repos=acme/widgets')).json();
+    const closedBy = Object.fromEntries(body.closedPrs.map((pr: { number: number; closedBy: string }) => [pr.number, pr.closedBy]));
+
+    expect(closedBy).toEqual({ 100: 'stale', 99: 'employee' });
+    expect(body.kpis.communityPrsClosedWithoutReview).toBe(1);
+  });
+
+  it('reports CI status and merge conflicts', async () => {
+    const body = await (await getDashboard('repos=acme/widgets')).json();
+    const byNumber = Object.fromEntries(body.prs.map((pr: { number: number }) => [pr.number, pr]));
+
+    expect(byNumber[101]).toMatchObject({ ciStatus: 'failing', mergeable: 'MERGEABLE' });
+    expect(byNumber[102]).toMatchObject({ ciStatus: 'passing', mergeable: 'CONFLICTING', mergeStateStatus: 'DIRTY' });
+    expect(byNumber[103].ciStatus).toBeUndefined();
+
+    const ready = await (await getDashboard('repos=acme/widgets&ci=passing&conflicts=false')).json();
+    expect(ready.prs).toEqual([]);
+  });
+
+  it('buckets PRs by size', async () => {
+    const body = await (await getDashboard('repos=acme/widgets')).json();
+
+    expect(body.prs.map((pr: { size: string }) => pr.size)).toEqual(['S', 'L', 'XS', 'XL']);
+    expect(body.reviewTimeBySize.map((bucket: { size: string; prCount: number }) => [bucket.size, bucket.prCount])).toEqual([
+      ['XS', 0], ['S', 1], ['M', 1], ['L', 1], ['XL', 0],
+    ]);
+  });
+
+  it('suggests code owners for PRs nobody was asked to review', async () => {
+    const body = await (await getDashboard('repos=acme/widgets')).json();
+    const suggestions = Object.fromEntries(body.prs.map((pr: { number: number; suggestedReviewers?: string[] }) => [pr.number, pr.suggestedReviewers]));
+
+    // #102 touches four src/api files (acme/backend: bob, carol), two docs (bob) and three others (alice)
+    expect(suggestions).toEqual({ 101: undefined, 102: ['bob', 'carol', 'alice'], 103: undefined, 104: undefined });
+  });
+
+  it('flags first-time contributors', async () => {
+    const body = await (await getDashboard('repos=acme/widgets&firstTime=true')).json();
+
+    expect(body.prs.map((pr: { number: number }) => pr.number)).toEqual([102]);
+    // #102 already has a review from alice
+    expect(body.kpis.firstTimeContributorsWaiting).toBe(0);
+  });
+
+  it('applies filters to replayed data', async () => {
+    const body = await (await getDashboard('repos=acme/widgets&labels=bug')).json();
+
+    expect(body.prs.map((pr: { number: number }) => pr.number)).toEqual([101]);
+  });
+});
@@ -4,8 +4,8 @@
  * Tests for app/api/dashboard/route.ts — the code changed on this branch.
  *
  * Covered:
- *   resolveRepos  — uses explicit repos, falls back to org discovery, falls
- *                   back to FALLBACK_REPOS when org discovery fails.
+ *   resolveRepos  — uses explicit repos, falls back to the discovered
+ *                   repositories (lib/repositories) when none are given.
  *   parallel fetch — all repos are fetched; PRs from every repo appear in
  *                    the merged response.
  *   RateLimitError — any repo throwing RateLimitError produces a 429 with
@@ -17,17 +17,26 @@
 import { NextRequest } from 'next/server';
 import { GET } from '@/app/api/dashboard/route';
 import { RateLimitError } from '@/lib/github';
+import { cache } from '@/lib/cache';
 
 // ─── Mocks ───────────────────────────────────────────────────────────────────
 
 jest.mock('@/lib/config', () => ({
   config: {
-    github: { token: 'test-token' },
+    github: {
+      tokens: ['test-token'],
+      apiUrl: 'https://api.github.com',
+      graphqlUrl: '',
+      enterprise: { url: '', token: '', orgs: [] },
+    },
     orgs: ['test-org'],
     repos: { include: [] },
-    cache: { ttlSeconds: 60 },
+    cache: { ttlSeconds: 60, staleTtlSeconds: 600, prDataTtlSeconds: 60 },
+    sync: { mode: 'full', fullResyncMinutes: 60 },
     limits: { maxPrPagesPerRepo: 10 },
-    sla: { firstResponseHours: 72, firstReviewHours: 144 },
+    sla: { firstResponseHours: 72, firstReviewHours: 144, firstTimeContributorResponseHours: 24 },
+    teamReviews: { countAsAssigned: true, load: 'members' },
+    access: { internalTokens: ['internal-secret'] },
   },
 }));
 
@@ -35,28 +44,51 @@ jest.mock('@/lib/config', () => ({
 jest.mock('@/lib/cache', () => ({
   cache: {
     withCache: jest.fn((_key: string, _ttl: number, fn: () => Promise<unknown>) => fn()),
+    withStaleCache: jest.fn(async (_key: string, _ttl: unknown, fn: () => Promise<unknown>) => ({
+      data: await fn(),
+      lastUpdated: '2024-01-01T00:00:00.000Z',
+      isStale: false,
+    })),
   },
 }));
 
+jest.mock('@/lib/repositories', () => ({
+  discoverRepositoryIds: jest.fn(),
+  filterVisibleRepoIds: jest.fn(async (repoIds: string[]) => repoIds),
+}));
+
 jest.mock('@/lib/employees', () => ({
   buildEmployeesSet: jest.fn(),
   buildRepoAuthorRoleSets: jest.fn(),
+  expandRequestedTeams: jest.fn(),
 }));
 
-// Keep the real RateLimitError class; replace network functions with mocks.
+// Keep the real error classes and pure derivations; replace network functions with mocks.
 jest.mock('@/lib/github', () => {
   const actual = jest.requireActual<typeof import('@/lib/github')>('@/lib/github');
   return {
     RateLimitError: actual.RateLimitError,
     GitHubAPIError: actual.GitHubAPIError,
+    deriveReviewStats: actual.deriveReviewStats,
+    deriveAllPRReviewStats: actual.deriveAllPRReviewStats,
     getOpenPRsGraphQL: jest.fn(),
-    getRecentlyMergedPRsWithReviews: jest.fn(),
-    getAllPRReviewStats: jest.fn(),
+    getMergedPRsWithTimeline: jest.fn(),
+    getClosedPRsWithTimeline: jest.fn(),
   };
 });
 
+jest.mock('@/lib/codeowners', () => ({
+  addSuggestedReviewers: jest.fn(),
+}));
+
+jest.mock('@/lib/snapshots', () => ({
+  maybeRecordSnapshot: jest.fn(),
+}));
+
 jest.mock('@/lib/compute', () => ({
+  teamReviewFilterOptions: jest.requireActual('@/lib/compute').teamReviewFilterOptions,
   transformPR: jest.fn(),
+  transformClosedPR: jest.fn(),
   computeKpis: jest.fn(),
   computeDashboardData: jest.fn(),
   computeCommunityReviewerStats: jest.fn(),
@@ -68,12 +100,17 @@ jest.mock('@/lib/compute', () => ({
 
 import {
   getOpenPRsGraphQL,
-  getRecentlyMergedPRsWithReviews,
-  getAllPRReviewStats,
+  getMergedPRsWithTimeline,
+  getClosedPRsWithTimeline,
 } from '@/lib/github';
 import { buildEmployeesSet, buildRepoAuthorRoleSets } from '@/lib/employees';
+import { addSuggestedReviewers } from '@/lib/codeowners';
+import { discoverRepositoryIds } from '@/lib/repositories';
+import { maybeRecordSnapshot } from '@/lib/snapshots';
+import { config } from '@/lib/config';
 import {
   transformPR,
+  transformClosedPR,
   computeDashboardData,
   computeCommunityReviewerStats,
   computeOrgMemberReviewerStats,
@@ -81,11 +118,15 @@ import {
 } from '@/lib/compute';
 
 const mockGetOpenPRs        = getOpenPRsGraphQL               as jest.MockedFunction<typeof getOpenPRsGraphQL>;
-const mockGetMergedPRs      = getRecentlyMergedPRsWithReviews as jest.MockedFunction<typeof getRecentlyMergedPRsWithReviews>;
-const mockGetAllReviewStats = getAllPRReviewStats             as jest.MockedFunction<typeof getAllPRReviewStats>;
+const mockGetMergedPRs      = getMergedPRsWithTimeline        as jest.MockedFunction<typeof getMergedPRsWithTimeline>;
+const mockGetClosedPRs      = getClosedPRsWithTimeline        as jest.MockedFunction<typeof getClosedPRsWithTimeline>;
 const mockBuildEmployeesSet = buildEmployeesSet               as jest.MockedFunction<typeof buildEmployeesSet>;
 const mockBuildRepoAuthorRoleSets = buildRepoAuthorRoleSets   as jest.MockedFunction<typeof buildRepoAuthorRoleSets>;
+const mockAddSuggestedReviewers   = addSuggestedReviewers     as jest.MockedFunction<typeof addSuggestedReviewers>;
+const mockDiscoverRepositoryIds   = discoverRepositoryIds     as jest.MockedFunction<typeof discoverRepositoryIds>;
+const mockMaybeRecordSnapshot     = maybeRecordSnapshot       as jest.MockedFunction<typeof maybeRecordSnapshot>;
 const mockTransformPR             = transformPR               as jest.MockedFunction<typeof transformPR>;
+const mockTransformClosedPR       = transformClosedPR         as jest.MockedFunction<typeof transformClosedPR>;
 const mockComputeDashboardData    = computeDashboardData           as jest.MockedFunction<typeof computeDashboardData>;
 const mockComputeCommunityStats   = computeCommunityReviewerStats  as jest.MockedFunction<typeof computeCommunityReviewerStats>;
 const mockComputeOrgMemberStats   = computeOrgMemberReviewerStats  as jest.MockedFunction<typeof computeOrgMemberReviewerStats>;
@@ -115,14 +156,15 @@ function makeTransformedPR(overrides: Record<string, unknown> = {}) {
   };
 }
 
-const EMPTY_REVIEW_STATS = { completedReviews: [], reviewRequests: [] };
-const EMPTY_ALL_REVIEW_STATS = { communityReviews: [], orgMemberReviews: [], botReviews: [] };
+const EMPTY_MERGED_PRS = { since: new Date(0).toISOString(), prs: [] };
 const EMPTY_DASHBOARD_DATA = {
   kpis: {
     openCommunityPrs: 0, communityPrPercentage: '0%',
     medianResponseTime: 'N/A', medianReviewTime: 'N/A',
     reviewerCompliance: '0%', pendingReviews: 0,
     activeReviewers: 0, prsWithoutReviewers: 0,
+    communityPrsClosedWithoutReview: 0, medianCommunityTimeToClose: 'N/A',
+    firstTimeContributorsWaiting: 0,
   },
   reviewers: [],
   prs: [],
@@ -137,9 +179,10 @@ beforeEach(() => {
   mockBuildEmployeesSet.mockResolvedValue(new Set<string>());
   mockBuildRepoAuthorRoleSets.mockResolvedValue({ maintainers: new Set<string>(), collaborators: new Set<string>() });
   mockGetOpenPRs.mockResolvedValue([]);
-  mockGetMergedPRs.mockResolvedValue(EMPTY_REVIEW_STATS);
-  mockGetAllReviewStats.mockResolvedValue(EMPTY_ALL_REVIEW_STATS);
+  mockGetMergedPRs.mockResolvedValue(EMPTY_MERGED_PRS);
+  mockGetClosedPRs.mockResolvedValue(EMPTY_MERGED_PRS);
   mockTransformPR.mockImplementation((rawPr: any) => makeTransformedPR({ number: rawPr.number }));
+  mockAddSuggestedReviewers.mockResolvedValue();
   mockComputeDashboardData.mockReturnValue(EMPTY_DASHBOARD_DATA as any);
   mockComputeCommunityStats.mockReturnValue([]);
   mockComputeOrgMemberStats.mockReturnValue([]);
@@ -165,33 +208,126 @@ describe('GET /api/dashboard — resolveRepos', () => {
     expect(mockGetOpenPRs).toHaveBeenCalledWith('owner', 'beta');
   });
 
-  it('uses DEFAULT_REPOS when no repos param is supplied', async () => {
+  it('uses the discovered repositories when no repos param is supplied', async () => {
+    mockDiscoverRepositoryIds.mockResolvedValue(['test-org/alpha', 'test-org/beta']);
+
     const res = await GET(makeRequest());
 
     expect(res.status).toBe(200);
     const fetched = mockGetOpenPRs.mock.calls.map(([owner, repo]) => `${owner}/${repo}`);
-    expect(fetched).toEqual([
-      'OpenHands/OpenHands',
-      'OpenHands/software-agent-sdk',
-      'OpenHands/OpenHands-CLI',
-      'OpenHands/docs',
-      'OpenHands/benchmarks',
-    ]);
+    expect(fetched).toEqual(['test-org/alpha', 'test-org/beta']);
+  });
+
+  it('leaves REPOS_INCLUDE globs to discovery instead of fetching them as repo ids', async () => {
+    config.repos.include = ['test-org/*'];
+    mockDiscoverRepositoryIds.mockResolvedValue(['test-org/alpha']);
+
+    try {
+      const res = await GET(makeRequest());
+
+      expect(res.status).toBe(200);
+      expect(mockDiscoverRepositoryIds).toHaveBeenCalled();
+      expect(mockGetOpenPRs.mock.calls.map(([owner, repo]) => `${owner}/${repo}`)).toEqual(['test-org/alpha']);
+    } finally {
+      config.repos.include = [];
+    }
+  });
+
+  it('discovers the internal repo set for viewers with an access token, under a separate cache entry', async () => {
+    mockDiscoverRepositoryIds.mockResolvedValue([]);
+    const request = new NextRequest('http://localhost/api/dashboard', { headers: { Authorization: 'Bearer internal-secret' } });
+
+    const body = await (await GET(request)).json();
+    await GET(makeRequest());
+
+    expect(mockDiscoverRepositoryIds.mock.calls.map(([viewer]) => viewer)).toEqual([{ internal: true }, { internal: false }]);
+    expect(body.viewer).toBe('internal');
+  });
+
+  it('does not run discovery when repos are given', async () => {
+    await GET(makeRequest({ repos: 'owner/alpha' }));
+
+    expect(mockDiscoverRepositoryIds).not.toHaveBeenCalled();
   });
 });
 
 // ─── parallel fetch ───────────────────────────────────────────────────────────
 
 describe('GET /api/dashboard — parallel fetch', () => {
-  it('runs getOpenPRsGraphQL, getRecentlyMergedPRsWithReviews and getAllPRReviewStats for each repo', async () => {
+  it('runs getOpenPRsGraphQL and a single getMergedPRsWithTimeline for each repo', async () => {
     await GET(makeRequest({ repos: 'owner/repo1,owner/repo2' }));
 
     expect(mockGetOpenPRs).toHaveBeenCalledWith('owner', 'repo1');
     expect(mockGetOpenPRs).toHaveBeenCalledWith('owner', 'repo2');
+    expect(mockGetMergedPRs).toHaveBeenCalledTimes(2);
     expect(mockGetMergedPRs).toHaveBeenCalledWith('owner', 'repo1', 30);
     expect(mockGetMergedPRs).toHaveBeenCalledWith('owner', 'repo2', 30);
-    expect(mockGetAllReviewStats).toHaveBeenCalledWith('owner', 'repo1', 30, expect.any(Set));
-    expect(mockGetAllReviewStats).toHaveBeenCalledWith('owner', 'repo2', 30, expect.any(Set));
+  });
+
+  it('sizes the merged and closed PR fetches to the requested window', async () => {
+    const res = await GET(makeRequest({ repos: 'owner/repo1', window: '90d' }));
+
+    expect(mockGetMergedPRs).toHaveBeenCalledWith('owner', 'repo1', 90);
+    expect(mockGetClosedPRs).toHaveBeenCalledWith('owner', 'repo1', 90);
+    expect((await res.json()).window.key).toBe('90d');
+    expect(mockMaybeRecordSnapshot).toHaveBeenCalledWith(expect.anything(), ['owner/repo1'], '90d');
+  });
+
+  it('rejects an unknown window with 400', async () => {
+    const res = await GET(makeRequest({ repos: 'owner/repo1', window: '14d' }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('invalid_window');
+    expect(mockGetMergedPRs).not.toHaveBeenCalled();
+  });
+
+  it('fetches closed PRs per repo and passes them to the KPI computation', async () => {
+    mockGetClosedPRs.mockResolvedValue({ since: new Date(0).toISOString(), prs: [{ number: 5, closedAt: new Date().toISOString() }] });
+    mockTransformClosedPR.mockImplementation((rawPr: any) => ({ number: rawPr.number, repo: `${rawPr.repository.owner.login}/${rawPr.repository.name}` }) as any);
+
+    await GET(makeRequest({ repos: 'owner/repo1' }));
+
+    expect(mockGetClosedPRs).toHaveBeenCalledWith('owner', 'repo1', 30);
+    const closedPrs = mockComputeDashboardData.mock.calls[0][3];
+    expect(closedPrs).toEqual([{ number: 5, repo: 'owner/repo1' }]);
+  });
+
+  it('derives both request-based and per-author review stats from the same merged PRs', async () => {
+    const submittedAt = new Date(Date.now() - 2 * 86_400_000).toISOString();
+    mockGetMergedPRs.mockResolvedValue({
+      since: new Date(Date.now() - 30 * 86_400_000).toISOString(),
+      prs: [{
+        number: 7,
+        url: 'https://github.com/owner/repo/pull/7',
+        createdAt: new Date(Date.now() - 3 * 86_400_000).toISOString(),
+        mergedAt: submittedAt,
+        author: { login: 'contributor' },
+        authorAssociation: 'CONTRIBUTOR',
+        timelineItems: {
+          nodes: [{ __typename: 'PullRequestReview', author: { login: 'reviewer1' }, submittedAt, state: 'APPROVED' }],
+        },
+      }],
+    });
+
+    await GET(makeRequest({ repos: 'owner/repo' }));
+
+    const reviewStatsData = mockComputeDashboardData.mock.calls[0][2];
+    expect(reviewStatsData?.completedReviews.map(r => r.prNumber)).toEqual([7]);
+    expect(mockComputeCommunityStats).toHaveBeenCalledWith([
+      expect.objectContaining({ reviewerLogin: 'reviewer1', prNumber: 7, prAuthor: 'contributor' }),
+    ]);
+  });
+
+  it('adds CODEOWNERS suggestions to each repo\'s PRs before they are returned', async () => {
+    mockGetOpenPRs.mockResolvedValue([{ number: 1 }]);
+    mockAddSuggestedReviewers.mockImplementation(async (_owner, _repo, prs) => {
+      prs.forEach(pr => { pr.suggestedReviewers = ['owner1']; });
+    });
+
+    const body = await (await GET(makeRequest({ repos: 'owner/repo1' }))).json();
+
+    expect(mockAddSuggestedReviewers).toHaveBeenCalledWith('owner', 'repo1', [expect.objectContaining({ number: 1 })]);
+    expect(body.prs[0].suggestedReviewers).toEqual(['owner1']);
   });
 
   it('merges PRs from all repos into a single response', async () => {
@@ -207,6 +343,117 @@ describe('GET /api/dashboard — parallel fetch', () => {
   });
 });
 
+// ─── CI and merge conflict filters ───────────────────────────────────────────
+
+describe('GET /api/dashboard — readiness filters', () => {
+  beforeEach(() => {
+    mockGetOpenPRs.mockResolvedValue([
+      { number: 1, ciStatus: 'failing', mergeable: 'MERGEABLE' },
+      { number: 2, ciStatus: 'passing', mergeable: 'CONFLICTING' },
+      { number: 3, ciStatus: 'pending', mergeable: 'UNKNOWN' },
+      { number: 4, mergeable: 'MERGEABLE' },
+    ]);
+    mockTransformPR.mockImplementation((rawPr: any) =>
+      makeTransformedPR({ number: rawPr.number, ciStatus: rawPr.ciStatus, mergeable: rawPr.mergeable }) as any
+    );
+  });
+
+  const numbers = async (params: Record<string, string>) =>
+    (await (await GET(makeRequest({ repos: 'owner/repo1', ...params }))).json()).prs.map((pr: { number: number }) => pr.number);
+
+  it('filters by CI status', async () => {
+    expect(await numbers({ ci: 'failing' })).toEqual([1]);
+    expect(await numbers({ ci: 'passing' })).toEqual([2]);
+    expect(await numbers({ ci: 'pending' })).toEqual([3]);
+  });
+
+  it('shows or hides PRs with merge conflicts', async () => {
+    expect(await numbers({ conflicts: 'true' })).toEqual([2]);
+    expect(await numbers({ conflicts: 'false' })).toEqual([1, 3, 4]);
+  });
+
+  describe('team review requests', () => {
+    beforeEach(() => {
+      mockGetOpenPRs.mockResolvedValue([{ number: 1 }, { number: 2 }, { number: 3 }]);
+      mockTransformPR.mockImplementation((rawPr: any) => makeTransformedPR({
+        number: rawPr.number,
+        repo: 'owner/repo1',
+        requestedReviewers: [
+          { users: ['alice'], teams: [] },
+          { users: [], teams: ['backend'], teamMembers: { backend: ['bob'] } },
+          { users: [], teams: [] },
+        ][rawPr.number - 1],
+      }) as any);
+    });
+
+    it('counts team-only requests as reviewers for noReviewers', async () => {
+      expect(await numbers({ noReviewers: 'true' })).toEqual([3]);
+    });
+
+    it('matches a reviewer through their team, or the team itself', async () => {
+      expect(await numbers({ reviewer: 'bob' })).toEqual([2]);
+      expect(await numbers({ reviewer: 'owner/backend' })).toEqual([2]);
+      expect(await numbers({ reviewer: 'other-org/backend' })).toEqual([]);
+    });
+  });
+});
+
+describe('GET /api/dashboard — caching', () => {
+  const cacheKeys = () => jest.mocked(cache.withStaleCache).mock.calls.map(([key]) => key);
+
+  it('shares one cache entry across PR filters, so changing them never refetches', async () => {
+    await GET(makeRequest({ repos: 'owner/repo1' }));
+    await GET(makeRequest({ repos: 'owner/repo1', status: 'needs-review', labels: 'bug', limit: '10' }));
+    await GET(makeRequest({ repos: 'owner/repo1', window: '7d' }));
+
+    const [unfiltered, filtered, otherWindow] = cacheKeys();
+    expect(filtered).toBe(unfiltered);
+    expect(otherWindow).not.toBe(unfiltered);
+  });
+
+  it('reuses the cache entry for an open-ended custom window as time passes', async () => {
+    jest.useFakeTimers({ now: Date.parse('2024-06-10T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      await GET(makeRequest({ repos: 'owner/repo1', window: 'custom', from: '2024-06-01' }));
+      jest.setSystemTime(Date.parse('2024-06-10T12:02:00Z'));
+      await GET(makeRequest({ repos: 'owner/repo1', window: 'custom', from: '2024-06-01' }));
+      await GET(makeRequest({ repos: 'owner/repo1', window: 'custom', from: '2024-06-02' }));
+    } finally {
+      jest.useRealTimers();
+    }
+
+    const [first, refreshed, otherRange] = cacheKeys();
+    expect(refreshed).toBe(first);
+    expect(otherRange).not.toBe(first);
+  });
+
+  it('filters the cached PRs on every request', async () => {
+    mockGetOpenPRs.mockResolvedValue([{ number: 1 }, { number: 2 }]);
+    mockTransformPR.mockImplementation((rawPr: any) => makeTransformedPR({ number: rawPr.number, isDraft: rawPr.number === 2 }));
+
+    const body = await (await GET(makeRequest({ repos: 'owner/repo1', draftStatus: 'drafts' }))).json();
+
+    expect(body.prs.map((pr: { number: number }) => pr.number)).toEqual([2]);
+    expect(body.totalPrs).toBe(2);
+    // What the page needs to filter the same way
+    expect(body.filterOptions).toEqual({ teamRequestsCountAsAssigned: true, teamRequestLoad: 'members' });
+  });
+});
+
+describe('GET /api/dashboard — first-time contributor filter', () => {
+  it('keeps only PRs from first-time contributors', async () => {
+    mockGetOpenPRs.mockResolvedValue([{ number: 1 }, { number: 2 }]);
+    mockTransformPR.mockImplementation((rawPr: any) =>
+      makeTransformedPR({ number: rawPr.number, isFirstTimeContributor: rawPr.number === 2 }) as any
+    );
+
+    const res = await GET(makeRequest({ repos: 'owner/repo1', firstTime: 'true' }));
+    const body = await res.json();
+
+    expect(body.prs.map((pr: { number: number }) => pr.number)).toEqual([2]);
+  });
+});
+
 // ─── RateLimitError → 429 ────────────────────────────────────────────────────
 
 describe('GET /api/dashboard — RateLimitError handling', () => {
@@ -242,7 +489,7 @@ describe('GET /api/dashboard — RateLimitError handling', () => {
     expect(res.headers.get('Retry-After')).toBe('0');
   });
 
-  it('returns 429 even when the RateLimitError comes from getRecentlyMergedPRsWithReviews', async () => {
+  it('returns 429 even when the RateLimitError comes from getMergedPRsWithTimeline', async () => {
     const resetAt = new Date(Date.now() + 60_000).toISOString();
     mockGetOpenPRs.mockResolvedValue([]);
     mockGetMergedPRs.mockRejectedValue(new RateLimitError(resetAt));
@@ -251,6 +498,22 @@ describe('GET /api/dashboard — RateLimitError handling', () => {
 
     expect(res.status).toBe(429);
   });
+
+  it('serves stale data with the reset time when the cache falls back instead of failing', async () => {
+    const resetAt = new Date(Date.now() + 60_000).toISOString();
+    jest.mocked(cache.withStaleCache).mockResolvedValueOnce({
+      data: { ...EMPTY_DASHBOARD_DATA, totalPrs: 0, employeeCount: 0 },
+      lastUpdated: '2024-01-01T00:00:00.000Z',
+      isStale: true,
+      rateLimitResetAt: resetAt,
+    });
+
+    const res = await GET(makeRequest({ repos: 'owner/repo' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ isStale: true, rateLimitResetAt: resetAt, lastUpdated: '2024-01-01T00:00:00.000Z' });
+  });
 });
 
 // ─── per-repo error isolation ─────────────────────────────────────────────────
@@ -0,0 +1,42 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    orgs: ['acme'],
+    repos: { include: ['acme/secret'] },
+    access: { internalTokens: ['let-me-in'] },
+    github: { tokens: ['ghp_aaaaaaaaaaaa1234', 'ghp_bbbbbbbbbbbb5678'], app: {}, enterprise: { orgs: [] } },
+    cache: { backend: 'memory' },
+  },
+}));
+
+jest.mock('@/lib/githubAuth', () => ({
+  ...jest.requireActual('@/lib/githubAuth'),
+  isGitHubAppConfigured: () => false,
+}));
+
+import { GET } from '@/app/api/debug/route';
+
+const request = (headers: Record<string, string> = {}) => new NextRequest('http://localhost/api/debug', { headers });
+
+describe('GET /api/debug', () => {
+  it('is only available to internal viewers', async () => {
+    const res = await GET(request());
+
+    expect(res.status).toBe(403);
+    expect(JSON.stringify(await res.json())).not.toContain('acme/secret');
+  });
+
+  it('identifies pooled tokens by position without exposing any part of them', async () => {
+    const res = await GET(request({ authorization: 'Bearer let-me-in' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.tokenPool.map((entry: { token: string }) => entry.token)).toEqual(['token 1', 'token 2']);
+    expect(JSON.stringify(body)).not.toMatch(/1234|5678/);
+  });
+});
@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react'
+import { fireEvent, render, screen } from '@testing-library/react'
 import PrTable from '@/components/PrTable'
 import { PR } from '@/lib/types'
 
@@ -13,10 +13,15 @@ const mockPRs: PR[] = [
     authorAssociation: 'CONTRIBUTOR',
     authorType: 'community',
     isEmployeeAuthor: false,
+    isFirstTimeContributor: false,
     isDraft: false,
     createdAt: '2024-01-01T00:00:00Z',
     updatedAt: '2024-01-01T00:00:00Z',
     labels: ['bug'],
+    additions: 400,
+    deletions: 20,
+    changedFiles: 12,
+    size: 'L',
     requestedReviewers: { users: ['reviewer1'], teams: [] },
     reviews: [],
     ageHours: 24,
@@ -33,10 +38,15 @@ const mockPRs: PR[] = [
     authorAssociation: 'CONTRIBUTOR',
     authorType: 'community',
     isEmployeeAuthor: false,
+    isFirstTimeContributor: false,
     isDraft: false,
     createdAt: '2024-01-02T00:00:00Z',
     updatedAt: '2024-01-02T00:00:00Z',
     labels: ['feature'],
+    additions: 3,
+    deletions: 1,
+    changedFiles: 1,
+    size: 'XS',
     requestedReviewers: { users: [], teams: [] },
     reviews: [],
     ageHours: 48,
@@ -96,6 +106,38 @@ describe('PrTable', () => {
     expect(screen.getByText('testuser2')).toBeInTheDocument()
   })
 
+  it('marks PRs whose nested data was truncated', () => {
+    render(<PrTable prs={[{ ...mockPRs[0], truncated: true }, mockPRs[1]]} />)
+
+    expect(screen.getAllByText(/partial data/)).toHaveLength(1)
+  })
+
+  it('shows CI status and merge conflicts', () => {
+    render(<PrTable prs={[{ ...mockPRs[0], ciStatus: 'failing', mergeable: 'CONFLICTING' }, { ...mockPRs[1], ciStatus: 'passing' }]} />)
+
+    expect(screen.getByLabelText('Checks failing')).toBeInTheDocument()
+    expect(screen.getByLabelText('Checks passing')).toBeInTheDocument()
+    expect(screen.getAllByText('Conflicts')).toHaveLength(1)
+  })
+
+  it('lists CODEOWNERS suggestions for PRs without reviewers', () => {
+    render(<PrTable prs={[mockPRs[0], { ...mockPRs[1], suggestedReviewers: ['owner-a', 'owner-b'] }]} />)
+
+    expect(screen.getByText('Suggested Reviewers')).toBeInTheDocument()
+    expect(screen.getByText('owner-a')).toBeInTheDocument()
+    expect(screen.getByText('owner-b')).toBeInTheDocument()
+  })
+
+  it('sorts by lines changed from the size column', () => {
+    render(<PrTable prs={mockPRs} />)
+
+    fireEvent.click(screen.getByText('Size'))
+    expect(screen.getAllByRole('link').map(link => link.textContent)).toEqual(['Test PR 1', 'Test PR 2'])
+
+    fireEvent.click(screen.getByText('Size'))
+    expect(screen.getAllByRole('link').map(link => link.textContent)).toEqual(['Test PR 2', 'Test PR 1'])
+  })
+
   it('applies dark mode styling when darkMode prop is true', () => {
     render(<PrTable prs={mockPRs} darkMode={true} />)
     
@@ -10,7 +10,7 @@ jest.mock('@/lib/cache', () => ({
 
 jest.mock('@/lib/config', () => ({
   config: {
-    cache: { ttlSeconds: 60 },
+    cache: { ttlSeconds: 60, prDataTtlSeconds: 60 },
     orgs: ['test-org'],
   },
 }));
@@ -27,15 +27,18 @@ jest.mock('@/lib/github', () => ({
   getOrgMembersGraphQL: jest.fn(),
   getOrgMembersREST: jest.fn(),
   getRepoCollaboratorsREST: jest.fn(),
+  getTeamMembersGraphQL: jest.fn(),
 }));
 
 import { readFileSync } from 'fs';
-import { getOrgMembersGraphQL, getRepoCollaboratorsREST } from '@/lib/github';
-import { buildEmployeesSet, buildMaintainersSet, buildRepoAuthorRoleSets } from '@/lib/employees';
+import { getOrgMembersGraphQL, getRepoCollaboratorsREST, getTeamMembersGraphQL } from '@/lib/github';
+import { buildEmployeesSet, buildMaintainersSet, buildRepoAuthorRoleSets, expandRequestedTeams } from '@/lib/employees';
+import { PR } from '@/lib/types';
 
 const mockReadFileSync = readFileSync as jest.MockedFunction<typeof readFileSync>;
 const mockGetOrgMembersGraphQL = getOrgMembersGraphQL as jest.MockedFunction<typeof getOrgMembersGraphQL>;
 const mockGetRepoCollaboratorsREST = getRepoCollaboratorsREST as jest.MockedFunction<typeof getRepoCollaboratorsREST>;
+const mockGetTeamMembersGraphQL = getTeamMembersGraphQL as jest.MockedFunction<typeof getTeamMembersGraphQL>;
 
 beforeEach(() => {
   jest.clearAllMocks();
@@ -123,3 +126,19 @@ describe('override-backed author role builders', () => {
 
 
 });
+
+describe('expandRequestedTeams', () => {
+  it('resolves requested teams to members other than the author', async () => {
+    mockGetTeamMembersGraphQL.mockImplementation(async (_org, slug) => slug === 'backend' ? ['alice', 'bob'] : ['carol']);
+    const prs = [
+      { authorLogin: 'alice', requestedReviewers: { users: [], teams: ['backend', 'docs'] } },
+      { authorLogin: 'dave', requestedReviewers: { users: ['erin'], teams: [] } },
+    ] as unknown as PR[];
+
+    await expandRequestedTeams('acme', prs);
+
+    expect(mockGetTeamMembersGraphQL).toHaveBeenCalledWith('acme', 'backend');
+    expect(prs[0].requestedReviewers.teamMembers).toEqual({ backend: ['bob'], docs: ['carol'] });
+    expect(prs[1].requestedReviewers.teamMembers).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * @jest-environment node
+ */
+
+import { cache } from '@/lib/cache';
+import { RateLimitError } from '@/lib/githubErrors';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// Lets calls that are waiting on the backend read get as far as the fetch
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+beforeEach(async () => {
+  await cache.clear();
+  cache.resetStats();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('withCache', () => {
+  it('coalesces concurrent misses for the same key onto one fetch', async () => {
+    const pending = deferred<string>();
+    const fetcher = jest.fn(() => pending.promise);
+
+    const calls = [1, 2, 3].map(() => cache.withCache('dashboard:all', 60, fetcher));
+    await flush();
+    expect(cache.getStats()).toMatchObject({ misses: 1, coalesced: 2, inFlight: 1 });
+
+    pending.resolve('data');
+    expect(await Promise.all(calls)).toEqual(['data', 'data', 'data']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    expect(await cache.withCache('dashboard:all', 60, fetcher)).toBe('data');
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1, coalesced: 2, stale: 0, inFlight: 0, backend: 'memory' });
+  });
+
+  it('fetches different keys independently', async () => {
+    const fetcher = jest.fn(async () => 'data');
+
+    await Promise.all([cache.withCache('a', 60, fetcher), cache.withCache('b', 60, fetcher)]);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects every waiter when the shared fetch fails, without caching the failure', async () => {
+    const pending = deferred<string>();
+    const calls = [1, 2].map(() => cache.withCache('dashboard:all', 60, () => pending.promise));
+
+    pending.reject(new Error('boom'));
+    for (const call of calls) {
+      await expect(call).rejects.toThrow('boom');
+    }
+    expect(cache.getStats().inFlight).toBe(0);
+    expect(await cache.get('dashboard:all')).toBeNull();
+
+    expect(await cache.withCache('dashboard:all', 60, async () => 'retried')).toBe('retried');
+  });
+
+  it('treats a fetcher that throws synchronously like a rejection', async () => {
+    await expect(cache.withCache('k', 60, () => { throw new Error('sync'); })).rejects.toThrow('sync');
+    expect(cache.getStats().inFlight).toBe(0);
+  });
+
+  it('does not cache a fetch that was invalidated while in flight', async () => {
+    const stale = deferred<string>();
+    const first = cache.withCache('merged:acme/widgets:30', 60, () => stale.promise);
+    await flush();
+
+    await cache.deleteByPrefix('merged:acme/widgets');
+    const second = cache.withCache('merged:acme/widgets:30', 60, async () => 'fresh');
+
+    stale.resolve('stale');
+    expect(await first).toBe('stale');
+    expect(await second).toBe('fresh');
+    expect(await cache.get('merged:acme/widgets:30')).toBe('fresh');
+  });
+});
+
+describe('withStaleCache', () => {
+  const ttl = { ttlSeconds: 60, staleTtlSeconds: 600 };
+  const start = new Date('2024-06-01T12:00:00Z');
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: start, doNotFake: ['nextTick', 'setImmediate'] });
+  });
+
+  it('serves fresh data within the soft TTL', async () => {
+    const fetcher = jest.fn(async () => 'v1');
+
+    expect(await cache.withStaleCache('dashboard:all', ttl, fetcher)).toEqual({ data: 'v1', lastUpdated: start.toISOString(), isStale: false });
+    jest.advanceTimersByTime(30_000);
+    expect(await cache.withStaleCache('dashboard:all', ttl, fetcher)).toMatchObject({ data: 'v1', isStale: false });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns stale data immediately after the soft TTL and refreshes it once in the background', async () => {
+    await cache.withStaleCache('dashboard:all', ttl, async () => 'v1');
+    jest.advanceTimersByTime(120_000);
+
+    const refresh = deferred<string>();
+    const fetcher = jest.fn(() => refresh.promise);
+    const results = await Promise.all([1, 2].map(() => cache.withStaleCache('dashboard:all', ttl, fetcher)));
+    expect(results).toEqual([1, 2].map(() => ({ data: 'v1', lastUpdated: start.toISOString(), isStale: true })));
+
+    refresh.resolve('v2');
+    await flush();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(await cache.withStaleCache('dashboard:all', ttl, fetcher)).toMatchObject({ data: 'v2', isStale: false });
+    expect(cache.getStats()).toMatchObject({ misses: 1, stale: 2, hits: 1 });
+  });
+
+  it('hands the background refresh to waitUntil so the platform keeps running it', async () => {
+    await cache.withStaleCache('dashboard:all', ttl, async () => 'v1');
+    jest.advanceTimersByTime(120_000);
+
+    const waitUntil = jest.fn();
+    await cache.withStaleCache('dashboard:all', ttl, async () => 'v2', { waitUntil });
+
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    await waitUntil.mock.calls[0][0];
+    expect(await cache.withStaleCache('dashboard:all', ttl, async () => 'v3')).toMatchObject({ data: 'v2', isStale: false });
+  });
+
+  it('waits for a refresh after the hard TTL', async () => {
+    await cache.withStaleCache('dashboard:all', ttl, async () => 'v1');
+    jest.advanceTimersByTime(601_000);
+
+    expect(await cache.withStaleCache('dashboard:all', ttl, async () => 'v2')).toMatchObject({ data: 'v2', isStale: false });
+  });
+
+  it('falls back to stored data when a waited-for refresh is rate limited, and holds off until the reset', async () => {
+    await cache.withStaleCache('dashboard:all', ttl, async () => 'v1');
+    jest.advanceTimersByTime(601_000);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const resetAt = new Date(Date.now() + 300_000).toISOString();
+    const fetcher = jest.fn(async (): Promise<string> => { throw new RateLimitError(resetAt); });
+
+    expect(await cache.withStaleCache('dashboard:all', ttl, fetcher)).toEqual({
+      data: 'v1', lastUpdated: start.toISOString(), isStale: true, rateLimitResetAt: resetAt,
+    });
+    // Past its stale TTL, but kept as a fallback
+    await cache.cleanup();
+    expect(await cache.withStaleCache('dashboard:all', ttl, fetcher)).toMatchObject({ data: 'v1', rateLimitResetAt: resetAt });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('refreshes entries expired by prefix on the next call, still falling back to them when rate limited', async () => {
+    await cache.withStaleCache('dashboard:all', ttl, async () => 'v1');
+    await cache.withStaleCache('review-stats:all', ttl, async () => 'stats');
+
+    expect(await cache.expireByPrefix('dashboard:')).toBe(1);
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const refresh = jest.fn(async (): Promise<string> => { throw new RateLimitError(new Date(Date.now() + 300_000).toISOString()); });
+    expect(await cache.withStaleCache('dashboard:all', ttl, refresh)).toMatchObject({ data: 'v1', isStale: true });
+    await flush();
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(await cache.withStaleCache('review-stats:all', ttl, refresh)).toMatchObject({ data: 'stats', isStale: false });
+    warn.mockRestore();
+  });
+
+  it('still fails when there is nothing to fall back to, or the error is not a rate limit', async () => {
+    const resetAt = new Date(Date.now() + 300_000).toISOString();
+    await expect(cache.withStaleCache('dashboard:all', ttl, async () => { throw new RateLimitError(resetAt); }))
+      .rejects.toBeInstanceOf(RateLimitError);
+
+    await cache.withStaleCache('dashboard:all', ttl, async () => 'v1');
+    jest.advanceTimersByTime(601_000);
+    await expect(cache.withStaleCache('dashboard:all', ttl, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+  });
+});
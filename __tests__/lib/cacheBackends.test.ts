@@ -0,0 +1,267 @@
+/**
+ * @jest-environment node
+ */
+
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { createServer, Server, Socket } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { cache } from '@/lib/cache';
+import {
+  CacheEntry,
+  FileCacheBackend,
+  MemoryCacheBackend,
+  RedisCacheBackend,
+  deserializeCacheEntry,
+  serializeCacheEntry,
+} from '@/lib/cacheBackends';
+import { RedisClient, RedisReplyError, RedisTimeoutError, parseReply } from '@/lib/redis';
+
+const entry = <T>(data: T, ttlMs: number = 60_000): CacheEntry<T> => {
+  const now = Date.now();
+  return { data, storedAt: now, freshUntil: now + ttlMs, staleUntil: now + ttlMs, expiry: now + ttlMs };
+};
+
+// A Redis stand-in speaking just the commands the cache backend sends
+function startFakeRedis(password?: string) {
+  const store = new Map<string, { value: string; expiresAt: number }>();
+  const commands: string[][] = [];
+  const sockets = new Set<Socket>();
+  const state = { stalled: false };
+
+  const bulk = (value: string | null) => (value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  const live = (key: string) => {
+    const item = store.get(key);
+    if (item && Date.now() > item.expiresAt) store.delete(key);
+    return store.get(key);
+  };
+  const globToRegExp = (glob: string) =>
+    new RegExp(`^${glob.replace(/\\(.)|([.+^${}()|[\]])|(\*)|(\?)/g, (_m, escaped, special, star, question) =>
+      escaped !== undefined ? escaped.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        : special !== undefined ? `\\${special}`
+          : star ? '.*'
+            : question ? '.' : '')}$`);
+
+  const reply = ([name, ...args]: string[], authed: { ok: boolean }): string => {
+    if (password && !authed.ok && name !== 'AUTH') return '-NOAUTH Authentication required.\r\n';
+    switch (name) {
+      case 'AUTH':
+        authed.ok = args[args.length - 1] === password;
+        return authed.ok ? '+OK\r\n' : '-WRONGPASS invalid password\r\n';
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'GET':
+        return bulk(live(args[0])?.value ?? null);
+      case 'SET':
+        store.set(args[0], { value: args[1], expiresAt: args[2] === 'PX' ? Date.now() + Number(args[3]) : Infinity });
+        return '+OK\r\n';
+      case 'DEL':
+        return `:${args.filter(key => store.delete(key)).length}\r\n`;
+      case 'SCAN': {
+        const pattern = globToRegExp(args[args.indexOf('MATCH') + 1]);
+        const keys = Array.from(store.keys()).filter(key => live(key) && pattern.test(key));
+        return `*2\r\n${bulk('0')}*${keys.length}\r\n${keys.map(bulk).join('')}`;
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server: Server = createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    const authed = { ok: false };
+    let buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed;
+      while (buffer.length > 0 && (parsed = parseReply(buffer))) {
+        buffer = buffer.subarray(parsed.end);
+        const command = parsed.value as string[];
+        commands.push(command);
+        if (!state.stalled) socket.write(reply(command, authed));
+      }
+    });
+  });
+
+  return {
+    store,
+    commands,
+    // Keeps accepting commands without ever replying
+    stall: () => { state.stalled = true; },
+    url: () => {
+      const address = server.address();
+      return `redis://${password ? `:${password}@` : ''}127.0.0.1:${typeof address === 'object' && address ? address.port : 0}/2`;
+    },
+    listen: () => new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve)),
+    dropConnections: () => sockets.forEach(socket => socket.destroy()),
+    close: () => new Promise<void>(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    }),
+  };
+}
+
+describe('serializeCacheEntry', () => {
+  it('round-trips Sets and Maps, including nested ones', () => {
+    const roles = { maintainers: new Set(['alice']), collaborators: new Set(['bob', 'carol']) };
+    const stored = entry({ roles, employees: new Set(['dave']), byRepo: new Map([['acme/widgets', new Set(['erin'])]]) });
+
+    const restored = deserializeCacheEntry<typeof stored.data>(serializeCacheEntry(stored));
+
+    expect(restored).toEqual(stored);
+    expect(restored.data.roles.maintainers).toBeInstanceOf(Set);
+    expect(restored.data.byRepo.get('acme/widgets')).toEqual(new Set(['erin']));
+  });
+});
+
+describe('parseReply', () => {
+  it('consumes a whole array that contains an error before reporting it', () => {
+    const buffer = Buffer.from('*3\r\n:1\r\n-ERR bad\r\n$2\r\nok\r\n+NEXT\r\n');
+
+    const parsed = parseReply(buffer);
+
+    expect(parsed?.value).toBeInstanceOf(RedisReplyError);
+    expect(parseReply(buffer, parsed?.end)?.value).toBe('NEXT');
+  });
+});
+
+describe('FileCacheBackend', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps entries across instances, as after a restart', async () => {
+    await new FileCacheBackend(dir).set('employees:acme', entry(new Set(['alice', 'bob'])));
+
+    const restored = await new FileCacheBackend(dir).get<Set<string>>('employees:acme');
+
+    expect(restored?.data).toEqual(new Set(['alice', 'bob']));
+    expect(await new FileCacheBackend(dir).get('employees:other')).toBeUndefined();
+  });
+
+  it('drops expired entries on read', async () => {
+    const backend = new FileCacheBackend(dir);
+    await backend.set('open-prs:acme/widgets', entry([1], -1));
+
+    expect(await backend.get('open-prs:acme/widgets')).toBeUndefined();
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('deletes by prefix, including keys too long to keep whole in the file name', async () => {
+    const backend = new FileCacheBackend(dir);
+    const longKey = `dashboard:${JSON.stringify({ repos: Array.from({ length: 20 }, (_, i) => `acme/repo-${i}`), labels: ['bug'] })}`;
+    await backend.set(longKey, entry('all'));
+    await backend.set('dashboard:{}', entry('none'));
+    await backend.set('review-stats:acme', entry('stats'));
+
+    expect(await backend.get(longKey)).toMatchObject({ data: 'all' });
+    expect(await backend.deleteByPrefix('dashboard:')).toBe(2);
+    expect(await backend.get('review-stats:acme')).toMatchObject({ data: 'stats' });
+
+    await backend.set(longKey, entry('all'));
+    expect(await backend.keys('dashboard:')).toEqual([longKey]);
+    expect(await backend.deleteByPrefix(longKey.slice(0, -5))).toBe(1);
+    expect(await backend.deleteByPrefix(`${longKey}x`)).toBe(0);
+  });
+});
+
+describe('RedisCacheBackend', () => {
+  let redis: ReturnType<typeof startFakeRedis>;
+  let client: RedisClient;
+
+  beforeEach(async () => {
+    redis = startFakeRedis('s3cret');
+    await redis.listen();
+    client = new RedisClient(redis.url());
+  });
+
+  afterEach(async () => {
+    client.close();
+    await redis.close();
+  });
+
+  it('authenticates, selects the database and namespaces keys', async () => {
+    const backend = new RedisCacheBackend(client, 'dash:');
+    await backend.set('employees:acme', entry(new Set(['alice'])));
+
+    expect((await backend.get<Set<string>>('employees:acme'))?.data).toEqual(new Set(['alice']));
+    expect(redis.commands.slice(0, 2)).toEqual([['AUTH', 's3cret'], ['SELECT', '2']]);
+    expect(Array.from(redis.store.keys())).toEqual(['dash:employees:acme']);
+    expect(Number(redis.commands[2][4])).toBeGreaterThan(59_000);
+  });
+
+  it('deletes by prefix without touching other namespaces or glob characters', async () => {
+    const backend = new RedisCacheBackend(client, 'dash:');
+    await backend.set('dashboard:{"repos":["a*"]}', entry(1));
+    await backend.set('dashboard:{"repos":["b"]}', entry(2));
+    await backend.set('review-stats:x', entry(3));
+    redis.store.set('other-app:dashboard:1', { value: 'keep', expiresAt: Infinity });
+
+    expect((await backend.keys('dashboard:')).sort()).toEqual(['dashboard:{"repos":["a*"]}', 'dashboard:{"repos":["b"]}']);
+    expect(await backend.deleteByPrefix('dashboard:{"repos":["a*')).toBe(1);
+    expect(await backend.deleteByPrefix('dashboard:')).toBe(1);
+    await backend.clear();
+
+    expect(Array.from(redis.store.keys())).toEqual(['other-app:dashboard:1']);
+  });
+
+  it('times out commands a stalled server never answers', async () => {
+    const impatient = new RedisClient(redis.url(), 50);
+    const backend = new RedisCacheBackend(impatient, 'dash:');
+    await backend.set('k', entry('v'));
+
+    redis.stall();
+    await expect(backend.get('k')).rejects.toBeInstanceOf(RedisTimeoutError);
+    impatient.close();
+  });
+
+  it('reconnects after the connection drops', async () => {
+    const backend = new RedisCacheBackend(client, 'dash:');
+    await backend.set('k', entry('v'));
+
+    redis.dropConnections();
+
+    expect(await backend.get('k')).toMatchObject({ data: 'v' });
+  });
+});
+
+describe('cache with a persistent backend', () => {
+  afterEach(() => {
+    cache.useBackend(new MemoryCacheBackend());
+  });
+
+  it('serves entries written before a restart without refetching', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cache-'));
+    try {
+      cache.useBackend(new FileCacheBackend(dir));
+      await cache.withCache('employees:acme', 60, async () => new Set(['alice']));
+
+      cache.useBackend(new FileCacheBackend(dir));
+      const fetcher = jest.fn(async () => new Set<string>());
+      expect(await cache.withCache('employees:acme', 60, fetcher)).toEqual(new Set(['alice']));
+      expect(fetcher).not.toHaveBeenCalled();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('falls back to fetching when the backend is unreachable', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const unreachable = startFakeRedis();
+    await unreachable.listen();
+    const url = unreachable.url();
+    await unreachable.close();
+    cache.useBackend(new RedisCacheBackend(new RedisClient(url), 'dash:'));
+
+    expect(await cache.withCache('employees:acme', 60, async () => new Set(['alice']))).toEqual(new Set(['alice']));
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
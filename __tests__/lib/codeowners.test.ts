@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    cache: { backend: 'memory', ttlSeconds: 60, prDataTtlSeconds: 60 },
+    teamReviews: { countAsAssigned: true, load: 'members' },
+  },
+}));
+
+jest.mock('@/lib/github', () => {
+  const actual = jest.requireActual<typeof import('@/lib/githubErrors')>('@/lib/githubErrors');
+  return {
+    RateLimitError: actual.RateLimitError,
+    getCodeownersFile: jest.fn(),
+    getPRChangedFiles: jest.fn(),
+  };
+});
+
+jest.mock('@/lib/employees', () => ({
+  getTeamMembers: jest.fn(),
+}));
+
+import { cache } from '@/lib/cache';
+import { getCodeownersFile, getPRChangedFiles, RateLimitError } from '@/lib/github';
+import { getTeamMembers } from '@/lib/employees';
+import { addSuggestedReviewers, ownersForPath, parseCodeowners } from '@/lib/codeowners';
+import { PR } from '@/lib/types';
+
+const mockGetCodeownersFile = getCodeownersFile as jest.MockedFunction<typeof getCodeownersFile>;
+const mockGetPRChangedFiles = getPRChangedFiles as jest.MockedFunction<typeof getPRChangedFiles>;
+const mockGetTeamMembers = getTeamMembers as jest.MockedFunction<typeof getTeamMembers>;
+
+const CODEOWNERS = `
+# Default owners
+*                     @lead
+
+*.md                  @docs-writer  docs@example.com
+/frontend/            @acme/frontend
+/frontend/vendor/
+docs/*                @docs-writer
+**/migrations/**      @dba
+`;
+
+describe('ownersForPath', () => {
+  const rules = parseCodeowners(CODEOWNERS);
+
+  it('uses the last matching rule', () => {
+    expect(ownersForPath(rules, 'src/index.ts')).toEqual(['@lead']);
+    expect(ownersForPath(rules, 'frontend/README.md')).toEqual(['@acme/frontend']);
+    expect(ownersForPath(rules, 'packages/api/README.md')).toEqual(['@docs-writer', 'docs@example.com']);
+  });
+
+  it('lets a rule without owners un-own a path', () => {
+    expect(ownersForPath(rules, 'frontend/vendor/lib.js')).toEqual([]);
+  });
+
+  it('matches `dir/*` only directly inside the directory', () => {
+    expect(ownersForPath(rules, 'docs/setup.txt')).toEqual(['@docs-writer']);
+    expect(ownersForPath(rules, 'docs/guides/setup.txt')).toEqual(['@lead']);
+  });
+
+  it('matches `**` across directories', () => {
+    expect(ownersForPath(rules, 'backend/db/migrations/0001_init.sql')).toEqual(['@dba']);
+  });
+
+  it('returns no owners without a matching rule', () => {
+    expect(ownersForPath(parseCodeowners('/src/ @dev'), 'lib/src/a.ts')).toEqual([]);
+  });
+});
+
+describe('addSuggestedReviewers', () => {
+  const pr = (number: number, overrides: Partial<PR> = {}) => ({
+    number,
+    authorLogin: 'contributor',
+    isDraft: false,
+    updatedAt: '2024-01-01T00:00:00Z',
+    requestedReviewers: { users: [], teams: [] },
+    ...overrides,
+  }) as PR;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await cache.clear();
+    mockGetCodeownersFile.mockResolvedValue(CODEOWNERS);
+    mockGetTeamMembers.mockResolvedValue(['fe-dev', 'lead']);
+  });
+
+  it('ranks owners by how many changed files they own, expanding teams', async () => {
+    mockGetPRChangedFiles.mockResolvedValue(['frontend/app.tsx', 'frontend/page.tsx', 'README.md', 'package.json']);
+    const prs = [pr(1)];
+
+    await addSuggestedReviewers('acme', 'widgets', prs);
+
+    expect(mockGetTeamMembers).toHaveBeenCalledWith('acme', 'frontend');
+    expect(prs[0].suggestedReviewers).toEqual(['lead', 'fe-dev', 'docs-writer']);
+  });
+
+  it('never suggests the author, and skips drafts and PRs that already have reviewers', async () => {
+    mockGetPRChangedFiles.mockResolvedValue(['src/index.ts']);
+    const prs = [
+      pr(1, { authorLogin: 'lead' }),
+      pr(2, { isDraft: true }),
+      pr(3, { requestedReviewers: { users: ['someone'], teams: [] } }),
+    ];
+
+    await addSuggestedReviewers('acme', 'widgets', prs);
+
+    expect(mockGetPRChangedFiles).toHaveBeenCalledTimes(1);
+    expect(prs.map(p => p.suggestedReviewers)).toEqual([[], undefined, undefined]);
+  });
+
+  it('looks up changed files for a few PRs at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    mockGetPRChangedFiles.mockImplementation(async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setImmediate(resolve));
+      running--;
+      return ['README.md'];
+    });
+    const prs = Array.from({ length: 12 }, (_, i) => pr(i + 1));
+
+    await addSuggestedReviewers('acme', 'widgets', prs);
+
+    expect(mockGetPRChangedFiles).toHaveBeenCalledTimes(12);
+    expect(maxRunning).toBe(5);
+    expect(prs.every(p => p.suggestedReviewers?.includes('docs-writer'))).toBe(true);
+  });
+
+  it('does nothing for repos without a CODEOWNERS file', async () => {
+    mockGetCodeownersFile.mockResolvedValue(null);
+    const prs = [pr(1)];
+
+    await addSuggestedReviewers('acme', 'widgets', prs);
+
+    expect(mockGetPRChangedFiles).not.toHaveBeenCalled();
+    expect(prs[0].suggestedReviewers).toBeUndefined();
+  });
+
+  it('swallows lookup failures but not rate limits', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetPRChangedFiles.mockRejectedValueOnce(new Error('boom'));
+    await expect(addSuggestedReviewers('acme', 'widgets', [pr(1)])).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+
+    mockGetPRChangedFiles.mockRejectedValueOnce(new RateLimitError(new Date().toISOString()));
+    await expect(addSuggestedReviewers('acme', 'widgets', [pr(2)])).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
@@ -1,11 +1,13 @@
-import { computeFirsts, computeReviewerStats, computeDashboardData } from '@/lib/compute';
-import { PR } from '@/lib/types';
+import { computeFirsts, computeReviewerStats, computeDashboardData, computeReviewTimeBySize, transformPR, transformClosedPR } from '@/lib/compute';
+import { ClosedPR, PR } from '@/lib/types';
 import { ReviewStatsData } from '@/lib/github';
+import { config } from '@/lib/config';
 
 // Mock the employees module
 jest.mock('@/lib/employees', () => ({
   isEmployee: (login: string, employeesSet: Set<string>) => employeesSet.has(login),
   isOrgMemberAssociation: (authorAssociation?: string) => authorAssociation === 'MEMBER' || authorAssociation === 'OWNER',
+  isFirstTimeContributorAssociation: (authorAssociation?: string) => authorAssociation === 'FIRST_TIME_CONTRIBUTOR' || authorAssociation === 'FIRST_TIMER',
   getAuthorType: (authorLogin: string, employeesSet: Set<string>, authorAssociation?: string, repoAuthorRoleSets = { maintainers: new Set<string>(), collaborators: new Set<string>() }) => {
     const normalizedLogin = authorLogin.toLowerCase();
     const isBot = normalizedLogin.includes('[bot]') || normalizedLogin.endsWith('-bot') || normalizedLogin.endsWith('_bot') || normalizedLogin === 'dependabot';
@@ -20,7 +22,9 @@ jest.mock('@/lib/employees', () => ({
 // Mock the config
 jest.mock('@/lib/config', () => ({
   config: {
-    sla: { firstResponseHours: 72, firstReviewHours: 168 },
+    sla: { firstResponseHours: 72, firstReviewHours: 168, firstTimeContributorResponseHours: 24 },
+    teamReviews: { countAsAssigned: true, load: 'members' },
+    github: { apiUrl: 'https://api.github.com', graphqlUrl: '', enterprise: { url: '', token: '', orgs: [] } },
   },
 }));
 
@@ -46,11 +50,182 @@ describe('computeFirsts', () => {
 
     expect(computeFirsts(pr, employeesSet)).toEqual({
       firstHumanResponseAt: '2024-01-01T02:00:00Z',
+      firstResponseType: 'review',
       firstReviewAt: '2024-01-01T02:00:00Z',
     });
   });
+
+  it('counts an employee conversation comment as the first response', () => {
+    const employeesSet = new Set(['employee1']);
+    const pr = {
+      author: { login: 'contributor' },
+      reviews: { nodes: [{ author: { login: 'employee1' }, submittedAt: '2024-01-02T00:00:00Z', state: 'APPROVED' }] },
+      comments: {
+        nodes: [
+          { author: { login: 'contributor' }, createdAt: '2024-01-01T00:30:00Z' },
+          { author: { login: 'employee1' }, createdAt: '2024-01-01T01:00:00Z' },
+        ],
+      },
+    };
+
+    expect(computeFirsts(pr, employeesSet)).toEqual({
+      firstHumanResponseAt: '2024-01-01T01:00:00Z',
+      firstResponseType: 'issue_comment',
+      firstReviewAt: '2024-01-02T00:00:00Z',
+    });
+  });
+
+  it('counts inline review comments from maintainers', () => {
+    const pr = {
+      author: { login: 'contributor' },
+      reviewThreads: {
+        nodes: [{ comments: { nodes: [{ author: { login: 'maintainer1' }, createdAt: '2024-01-01T03:00:00Z' }] } }],
+      },
+    };
+    const roles = { maintainers: new Set(['maintainer1']), collaborators: new Set<string>() };
+
+    expect(computeFirsts(pr, new Set(), roles)).toEqual({
+      firstHumanResponseAt: '2024-01-01T03:00:00Z',
+      firstResponseType: 'review_comment',
+      firstReviewAt: undefined,
+    });
+  });
+
+  it('ignores comments from the PR author and non-employees', () => {
+    const pr = {
+      author: { login: 'employee1' },
+      comments: {
+        nodes: [
+          { author: { login: 'employee1' }, createdAt: '2024-01-01T01:00:00Z' },
+          { author: { login: 'community-user' }, createdAt: '2024-01-01T02:00:00Z' },
+        ],
+      },
+    };
+
+    expect(computeFirsts(pr, new Set(['employee1'])).firstHumanResponseAt).toBeUndefined();
+  });
+});
+
+describe('transformPR', () => {
+  const openPR = (overrides: Record<string, unknown> = {}) => ({
+    number: 5,
+    title: 'Open PR',
+    url: 'https://github.com/test/repo/pull/5',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    author: { login: 'contributor' },
+    authorAssociation: 'CONTRIBUTOR',
+    repository: { owner: { login: 'test' }, name: 'repo' },
+    ...overrides,
+  });
+  const withRollup = (state: string | null) => ({
+    commits: { nodes: [{ commit: { statusCheckRollup: state ? { state } : null } }] },
+  });
+
+  it('maps the head commit\'s check rollup onto a CI status', () => {
+    expect(transformPR(openPR(withRollup('SUCCESS')), new Set()).ciStatus).toBe('passing');
+    expect(transformPR(openPR(withRollup('ERROR')), new Set()).ciStatus).toBe('failing');
+    expect(transformPR(openPR(withRollup('EXPECTED')), new Set()).ciStatus).toBe('pending');
+    expect(transformPR(openPR(withRollup(null)), new Set()).ciStatus).toBeUndefined();
+    expect(transformPR(openPR(), new Set()).ciStatus).toBeUndefined();
+  });
+
+  it('buckets PRs by lines changed', () => {
+    expect(transformPR(openPR({ additions: 5, deletions: 4, changedFiles: 1 }), new Set())).toMatchObject({ additions: 5, deletions: 4, changedFiles: 1, size: 'XS' });
+    expect(transformPR(openPR({ additions: 40, deletions: 10 }), new Set()).size).toBe('M');
+    expect(transformPR(openPR({ additions: 999 }), new Set()).size).toBe('L');
+    expect(transformPR(openPR({ additions: 3000, deletions: 500 }), new Set()).size).toBe('XL');
+  });
+
+  it('flags first-time contributors and holds them to the stricter first-response SLA', () => {
+    const thirtyHoursAgo = new Date(Date.now() - 30 * 60 * 60 * 1000).toISOString();
+
+    const newcomer = transformPR(openPR({ authorAssociation: 'FIRST_TIME_CONTRIBUTOR', createdAt: thirtyHoursAgo }), new Set());
+    expect(newcomer).toMatchObject({ authorType: 'community', isFirstTimeContributor: true, overdueFirstResponse: true });
+    expect(transformPR(openPR({ authorAssociation: 'FIRST_TIMER' }), new Set()).isFirstTimeContributor).toBe(true);
+
+    const regular = transformPR(openPR({ createdAt: thirtyHoursAgo }), new Set());
+    expect(regular).toMatchObject({ isFirstTimeContributor: false, overdueFirstResponse: false });
+
+    // A new employee's first PR is not a community contribution
+    const newHire = transformPR(openPR({ authorAssociation: 'FIRST_TIME_CONTRIBUTOR', createdAt: thirtyHoursAgo }), new Set(['contributor']));
+    expect(newHire).toMatchObject({ authorType: 'employee', isFirstTimeContributor: false, overdueFirstResponse: false });
+  });
+
+  it('carries mergeability through', () => {
+    expect(transformPR(openPR({ mergeable: 'CONFLICTING', mergeStateStatus: 'DIRTY' }), new Set())).toMatchObject({
+      mergeable: 'CONFLICTING',
+      mergeStateStatus: 'DIRTY',
+    });
+  });
+});
+
+describe('computeReviewTimeBySize', () => {
+  const reviewedPR = (size: PR['size'], hours: number, authorType: PR['authorType'] = 'community') => ({
+    size,
+    authorType,
+    readyForReviewAt: '2024-01-01T00:00:00Z',
+    firstReviewAt: new Date(Date.parse('2024-01-01T00:00:00Z') + hours * 3600 * 1000).toISOString(),
+  }) as PR;
+
+  it('takes the median per bucket across open and merged PRs', () => {
+    const result = computeReviewTimeBySize(
+      [reviewedPR('XS', 1), reviewedPR('XS', 3), reviewedPR('XL', 100), reviewedPR('XS', 0.5, 'bot')],
+      [{ prNumber: 9, prUrl: '', size: 'XS', reviewTimeHours: 2 }, { prNumber: 8, prUrl: '', size: 'XS', reviewTimeHours: 10 }]
+    );
+
+    expect(result.map(bucket => bucket.size)).toEqual(['XS', 'S', 'M', 'L', 'XL']);
+    expect(result[0]).toEqual({ size: 'XS', prCount: 4, medianReviewTimeHours: 2.5 });
+    // Too few reviews for a meaningful median
+    expect(result[4]).toEqual({ size: 'XL', prCount: 1, medianReviewTimeHours: null });
+  });
 });
 
+describe('transformClosedPR', () => {
+  const employeesSet = new Set(['employee1']);
+  const closedPR = (closer: string | null, overrides: Record<string, unknown> = {}) => ({
+    number: 7,
+    title: 'Closed PR',
+    url: 'https://github.com/test/repo/pull/7',
+    createdAt: '2024-01-01T00:00:00Z',
+    closedAt: '2024-01-03T12:00:00Z',
+    author: { login: 'contributor' },
+    authorAssociation: 'CONTRIBUTOR',
+    repository: { owner: { login: 'test' }, name: 'repo' },
+    labels: { nodes: [] },
+    timelineItems: { nodes: closer ? [{ __typename: 'ClosedEvent', createdAt: '2024-01-03T12:00:00Z', actor: { login: closer } }] : [] },
+    ...overrides,
+  });
+
+  it('measures time to close and classifies who closed it', () => {
+    expect(transformClosedPR(closedPR('employee1'), employeesSet)).toMatchObject({
+      repo: 'test/repo',
+      authorType: 'community',
+      closedBy: 'employee',
+      closedByLogin: 'employee1',
+      timeToCloseHours: 60,
+      hadHumanReview: false,
+    });
+    expect(transformClosedPR(closedPR('contributor'), employeesSet).closedBy).toBe('author');
+    expect(transformClosedPR(closedPR('someone-else'), employeesSet).closedBy).toBe('other');
+    expect(transformClosedPR(closedPR(null), employeesSet).closedBy).toBe('other');
+  });
+
+  it('tells the stale action apart from other bots', () => {
+    expect(transformClosedPR(closedPR('github-actions[bot]'), employeesSet).closedBy).toBe('bot');
+    expect(transformClosedPR(closedPR('github-actions[bot]', { labels: { nodes: [{ name: 'Stale' }] } }), employeesSet).closedBy).toBe('stale');
+  });
+
+  it('only counts non-bot reviews by someone other than the author', () => {
+    const review = (login: string) => ({ __typename: 'PullRequestReview', author: { login }, submittedAt: '2024-01-02T00:00:00Z', state: 'COMMENTED' });
+
+    const botAndSelf = closedPR(null, { timelineItems: { nodes: [review('all-hands-bot'), review('contributor')] } });
+    expect(transformClosedPR(botAndSelf, employeesSet).hadHumanReview).toBe(false);
+
+    const human = closedPR(null, { timelineItems: { nodes: [review('employee1')] } });
+    expect(transformClosedPR(human, employeesSet).hadHumanReview).toBe(true);
+  });
+});
 
 describe('computeReviewerStats', () => {
   const employeesSet = new Set(['employee1', 'employee2', 'employee3']);
@@ -64,6 +239,7 @@ describe('computeReviewerStats', () => {
     authorAssociation: 'CONTRIBUTOR',
     authorType: 'community',
     isEmployeeAuthor: false,
+    isFirstTimeContributor: false,
     isDraft: false,
     createdAt: '2024-01-01T00:00:00Z',
     updatedAt: '2024-01-01T00:00:00Z',
@@ -307,6 +483,7 @@ describe('computeDashboardData', () => {
     authorAssociation: 'CONTRIBUTOR',
     authorType: 'community',
     isEmployeeAuthor: false,
+    isFirstTimeContributor: false,
     isDraft: false,
     createdAt: '2024-01-01T00:00:00Z',
     updatedAt: '2024-01-01T00:00:00Z',
@@ -370,4 +547,78 @@ describe('computeDashboardData', () => {
 
     expect(result.kpis.pendingReviews).toBe(3); // 2 for employee1 + 1 for employee2
   });
+
+  it('counts community PRs closed without a human review and their median time to close', () => {
+    const closed = (number: number, authorType: PR['authorType'], hadHumanReview: boolean, timeToCloseHours = 24): ClosedPR => ({
+      repo: 'test/repo', number, title: 'Closed', url: '', authorLogin: 'someone', authorType,
+      createdAt: '2024-01-01T00:00:00Z', closedAt: '2024-01-02T00:00:00Z',
+      closedBy: 'stale', timeToCloseHours, hadHumanReview,
+    });
+
+    const result = computeDashboardData([], employeesSet, undefined, [
+      closed(1, 'community', false, 24),
+      closed(2, 'community', true, 72),
+      closed(3, 'employee', false, 1),
+    ]);
+
+    expect(result.kpis.communityPrsClosedWithoutReview).toBe(1);
+    expect(result.metrics?.communityPrsClosedWithoutReview).toBe(1);
+    // Community PRs only: the median of 24h and 72h
+    expect(result.kpis.medianCommunityTimeToClose).toBe('2d');
+    expect(result.metrics?.medianCommunityTimeToCloseHours).toBe(48);
+    expect(result.closedPrs).toHaveLength(3);
+  });
+
+  it('counts non-draft first-time contributor PRs still waiting on a first response', () => {
+    const result = computeDashboardData([
+      createMockPR({ number: 1, isFirstTimeContributor: true }),
+      createMockPR({ number: 2, isFirstTimeContributor: true, needsFirstResponse: false }),
+      createMockPR({ number: 3, isFirstTimeContributor: true, isDraft: true }),
+      createMockPR({ number: 4 }),
+    ], employeesSet);
+
+    expect(result.kpis.firstTimeContributorsWaiting).toBe(1);
+    expect(result.metrics?.firstTimeContributorsWaiting).toBe(1);
+  });
+
+  describe('team review requests', () => {
+    const teamPr = (number: number, users: string[] = []) => createMockPR({
+      number,
+      requestedReviewers: { users, teams: ['backend'], teamMembers: { backend: ['employee1', 'employee2'] } },
+    });
+
+    afterEach(() => {
+      config.teamReviews.countAsAssigned = true;
+      config.teamReviews.load = 'members';
+    });
+
+    it('spreads team requests over the members by default', () => {
+      const result = computeDashboardData([teamPr(1), teamPr(2, ['employee1'])], employeesSet);
+
+      expect(result.reviewers?.find(r => r.name === 'employee1')?.pendingCount).toBe(2);
+      expect(result.reviewers?.find(r => r.name === 'employee2')?.pendingCount).toBe(2);
+      expect(result.kpis.pendingReviews).toBe(4);
+      expect(result.kpis.prsWithoutReviewers).toBe(0);
+      expect(result.teams).toEqual([{ name: 'test/backend', pendingCount: 2, memberCount: 2 }]);
+    });
+
+    it('keeps team requests on the team row when TEAM_REQUEST_LOAD=team', () => {
+      config.teamReviews.load = 'team';
+
+      const result = computeDashboardData([teamPr(1), teamPr(2, ['employee1'])], employeesSet);
+
+      expect(result.reviewers?.map(r => [r.name, r.pendingCount])).toEqual([['employee1', 1]]);
+      expect(result.kpis.pendingReviews).toBe(3);
+      expect(result.teams?.[0].pendingCount).toBe(2);
+    });
+
+    it('treats team-only PRs as unassigned when TEAM_REQUESTS_COUNT_AS_ASSIGNED=false', () => {
+      config.teamReviews.countAsAssigned = false;
+
+      const result = computeDashboardData([teamPr(1), teamPr(2, ['employee1'])], employeesSet);
+
+      expect(result.kpis.prsWithoutReviewers).toBe(1);
+      expect(result.kpis.reviewerCompliance).toBe('50%');
+    });
+  });
 });
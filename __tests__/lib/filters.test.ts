@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  DEFAULT_FILTERS,
+  DEFAULT_FILTER_OPTIONS,
+  applyFilters,
+  parseFilterState,
+  reviewerFilterValues,
+  serializeFilterState,
+} from '@/lib/filters';
+import { FilterState, PR } from '@/lib/types';
+
+function makePR(overrides: Partial<PR> = {}): PR {
+  return {
+    repo: 'owner/alpha',
+    number: 1,
+    title: 'PR',
+    url: 'https://github.com/owner/alpha/pull/1',
+    authorLogin: 'someone',
+    authorAssociation: 'CONTRIBUTOR',
+    authorType: 'community',
+    isEmployeeAuthor: false,
+    isFirstTimeContributor: false,
+    isDraft: false,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    readyForReviewAt: '2024-01-01T00:00:00Z',
+    labels: [],
+    additions: 1,
+    deletions: 1,
+    changedFiles: 1,
+    size: 'XS',
+    requestedReviewers: { users: [], teams: [] },
+    reviews: [],
+    ageHours: 1,
+    needsFirstResponse: true,
+    overdueFirstResponse: false,
+    overdueFirstReview: false,
+    ...overrides,
+  };
+}
+
+const filtersFor = (query: string): FilterState => parseFilterState(new URLSearchParams(query));
+const filterBy = (prs: PR[], query: string) => applyFilters(prs, filtersFor(query), DEFAULT_FILTER_OPTIONS);
+const numbers = (prs: PR[]) => prs.map(pr => pr.number);
+
+describe('parseFilterState', () => {
+  it('falls back to the defaults for missing params', () => {
+    expect(filtersFor('')).toEqual(DEFAULT_FILTERS);
+    expect(filtersFor('labels=Bug, good first issue,&repos=acme/a,acme/b')).toMatchObject({
+      labels: ['Bug', 'good first issue'],
+      repositories: ['acme/a', 'acme/b'],
+    });
+  });
+
+  it('keeps only known stats windows', () => {
+    expect(filtersFor('window=7d&from=2024-01-01').window).toBe('7d');
+    expect(filtersFor('window=7d&from=2024-01-01').windowFrom).toBeUndefined();
+    expect(filtersFor('window=custom&from=2024-01-01')).toMatchObject({ window: 'custom', windowFrom: '2024-01-01' });
+    expect(filtersFor('window=forever')).not.toHaveProperty('window');
+    expect(filtersFor('window=constructor')).not.toHaveProperty('window');
+  });
+});
+
+describe('serializeFilterState', () => {
+  it('leaves defaults out of the query string', () => {
+    expect(serializeFilterState(DEFAULT_FILTERS).toString()).toBe('');
+  });
+
+  it('round-trips through parseFilterState', () => {
+    const filters: FilterState = {
+      ...DEFAULT_FILTERS,
+      repositories: ['acme/a'],
+      labels: ['bug', 'needs review'],
+      ageRange: '7-days',
+      status: 'approved',
+      noReviewers: true,
+      firstTimeContributors: true,
+      limit: '12',
+      draftStatus: 'final',
+      authorType: 'community',
+      ci: 'failing',
+      conflicts: 'true',
+      window: 'custom',
+      windowFrom: '2024-01-01',
+      windowTo: '2024-02-01',
+    };
+
+    expect(parseFilterState(serializeFilterState(filters))).toEqual(filters);
+  });
+});
+
+describe('applyFilters', () => {
+  const prs = [
+    makePR({ number: 1, labels: ['Bug'], ageHours: 10, authorType: 'employee' }),
+    makePR({ number: 2, ageHours: 60, isDraft: true, needsFirstResponse: false }),
+    makePR({ number: 3, ageHours: 200, needsFirstResponse: false, firstReviewAt: '2024-01-02T00:00:00Z',
+      reviews: [{ authorLogin: 'alice', state: 'APPROVED', submittedAt: '2024-01-02T00:00:00Z' }],
+      requestedReviewers: { users: [], teams: ['core'], teamMembers: { core: ['carol'] } } }),
+    makePR({ number: 4, ageHours: 5, requestedReviewers: { users: ['bob'], teams: [] } }),
+  ];
+
+  it('returns every PR without filters', () => {
+    expect(filterBy(prs, '')).toBe(prs);
+  });
+
+  it('combines filters', () => {
+    expect(numbers(filterBy(prs, 'labels=bug'))).toEqual([1]);
+    expect(numbers(filterBy(prs, 'age=3-days'))).toEqual([1, 2, 4]);
+    expect(numbers(filterBy(prs, 'age=3-days&draftStatus=final&authorType=community'))).toEqual([4]);
+    expect(numbers(filterBy(prs, 'status=needs-review'))).toEqual([1, 4]);
+    expect(numbers(filterBy(prs, 'status=approved'))).toEqual([3]);
+    expect(numbers(filterBy(prs, 'noReviewers=true&draftStatus=drafts'))).toEqual([2]);
+  });
+
+  it('matches reviewers and teams per the team review settings', () => {
+    expect(numbers(filterBy(prs, 'reviewer=bob'))).toEqual([4]);
+    expect(numbers(filterBy(prs, 'reviewer=owner/core'))).toEqual([3]);
+    expect(numbers(filterBy(prs, 'reviewer=carol'))).toEqual([3]);
+    expect(numbers(filterBy(prs, 'noReviewers=true'))).toEqual([1, 2]);
+
+    const teamOnly = { teamRequestsCountAsAssigned: false, teamRequestLoad: 'team' as const };
+    expect(numbers(applyFilters(prs, filtersFor('reviewer=carol'), teamOnly))).toEqual([]);
+    expect(numbers(applyFilters(prs, filtersFor('noReviewers=true'), teamOnly))).toEqual([1, 2, 3]);
+  });
+
+  it('applies the limit after every other filter', () => {
+    expect(numbers(filterBy(prs, 'draftStatus=final&limit=2'))).toEqual([1, 3]);
+    expect(numbers(filterBy(prs, 'limit=all'))).toEqual([1, 2, 3, 4]);
+  });
+
+  it('leaves its input untouched', () => {
+    const copy = [...prs];
+    filterBy(prs, 'labels=bug&limit=1');
+    expect(prs).toEqual(copy);
+  });
+});
+
+describe('reviewerFilterValues', () => {
+  it('lists requested people and org/slug teams once, sorted', () => {
+    const prs = [
+      makePR({ requestedReviewers: { users: ['bob'], teams: ['core'] } }),
+      makePR({ repo: 'ghe.example.com/acme/widgets', requestedReviewers: { users: ['Alice', 'bob'], teams: ['infra'] } }),
+    ];
+
+    expect(reviewerFilterValues(prs)).toEqual(['acme/infra', 'Alice', 'bob', 'owner/core']);
+  });
+});
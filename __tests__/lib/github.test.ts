@@ -1,4 +1,20 @@
-import { getOpenPRsGraphQL, getRecentlyMergedPRsWithReviews, getAllPRReviewStats, RateLimitError, GitHubAPIError } from '@/lib/github';
+/**
+ * @jest-environment node
+ */
+
+import {
+  getOpenPRsGraphQL,
+  getPRsUpdatedSince,
+  getMergedPRsWithTimeline,
+  getClosedPRsWithTimeline,
+  deriveReviewStats,
+  deriveAllPRReviewStats,
+  getRecentlyMergedPRsWithReviews,
+  getAllPRReviewStats,
+  RateLimitError,
+  GitHubAPIError,
+} from '@/lib/github';
+import { resetGitHubAuthState } from '@/lib/githubAuth';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -6,11 +22,24 @@ global.fetch = jest.fn();
 // Mock the config
 jest.mock('@/lib/config', () => ({
   config: {
-    github: { token: 'test-token' },
-    limits: { maxPrPagesPerRepo: 10 },
+    github: {
+      tokens: ['test-token'],
+      app: { appId: '', privateKey: '', installationId: '' },
+      apiUrl: 'https://api.github.com',
+      graphqlUrl: '',
+      enterprise: { url: '', token: '', orgs: [] },
+    },
+    orgs: ['test-org'],
+    requests: { maxAttempts: 3, retryBaseDelayMs: 1, maxRetryDelayMs: 1000, timeoutMs: 1000 },
+    limits: { maxPrPagesPerRepo: 10, maxNestedPages: 2, maxWindowPages: 3 },
   },
 }));
 
+// Token rate-limit state is module-level; don't let one test's 403 exhaust the next
+beforeEach(() => {
+  resetGitHubAuthState();
+});
+
 describe('getOpenPRsGraphQL', () => {
   const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
 
@@ -302,6 +331,131 @@ describe('getOpenPRsGraphQL', () => {
   });
 });
 
+describe('nested connection pagination', () => {
+  const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+  const respond = (data: unknown) => ({
+    ok: true,
+    json: async () => ({ data }),
+    headers: new Headers(),
+  } as Response);
+
+  const connection = (nodes: any[], hasNextPage: boolean, endCursor: string | null = null) => ({
+    pageInfo: { hasNextPage, endCursor },
+    nodes,
+  });
+
+  function openPRsPage(pr: any) {
+    return respond({ repository: { pullRequests: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [pr] } } });
+  }
+
+  function basePR(overrides: Record<string, unknown> = {}) {
+    return {
+      number: 7,
+      state: 'OPEN',
+      labels: connection([{ name: 'bug' }], false),
+      reviewRequests: connection([], false),
+      reviews: connection([{ author: { login: 'r1' }, state: 'COMMENTED', submittedAt: '2024-01-01T00:00:00Z' }], true, 'rev1'),
+      timelineItems: connection([], false),
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('fetches the remaining pages of a nested connection', async () => {
+    mockFetch
+      .mockResolvedValueOnce(openPRsPage(basePR()))
+      .mockResolvedValueOnce(respond({ repository: { pullRequest: {
+        reviews: connection([{ author: { login: 'r2' }, state: 'APPROVED', submittedAt: '2024-01-02T00:00:00Z' }], false),
+      } } }));
+
+    const [pr] = await getOpenPRsGraphQL('test', 'repo');
+
+    expect(pr.reviews.nodes.map((r: any) => r.author.login)).toEqual(['r1', 'r2']);
+    expect(pr.truncatedConnections).toBeUndefined();
+
+    const followUp = JSON.parse(mockFetch.mock.calls[1][1]!.body as string);
+    expect(followUp.query).toContain('pullRequest(number: $number)');
+    expect(followUp.query).toContain('reviews(first: 100, after: $cursor)');
+    expect(followUp.variables).toMatchObject({ owner: 'test', name: 'repo', number: 7, cursor: 'rev1' });
+  });
+
+  it('marks a connection as truncated when the follow-up page cap is hit', async () => {
+    const morePages = (cursor: string) => respond({ repository: { pullRequest: {
+      reviews: connection([{ author: { login: cursor }, state: 'COMMENTED', submittedAt: '2024-01-02T00:00:00Z' }], true, cursor),
+    } } });
+
+    mockFetch
+      .mockResolvedValueOnce(openPRsPage(basePR()))
+      .mockResolvedValueOnce(morePages('rev2'))
+      .mockResolvedValueOnce(morePages('rev3'));
+
+    const [pr] = await getOpenPRsGraphQL('test', 'repo');
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(pr.reviews.nodes).toHaveLength(3);
+    expect(pr.truncatedConnections).toEqual(['reviews']);
+  });
+
+  it('leaves PRs whose connections fit in the first page alone', async () => {
+    mockFetch.mockResolvedValueOnce(openPRsPage(basePR({ reviews: connection([], false) })));
+
+    await getOpenPRsGraphQL('test', 'repo');
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getPRsUpdatedSince', () => {
+  const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+  const page = (nodes: any[], hasNextPage: boolean, endCursor: string | null = null) => ({
+    ok: true,
+    json: async () => ({ data: { repository: { pullRequests: { pageInfo: { hasNextPage, endCursor }, nodes } } } }),
+    headers: new Headers(),
+  } as Response);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('orders by UPDATED_AT and stops paginating at the watermark', async () => {
+    mockFetch
+      .mockResolvedValueOnce(page([
+        { number: 5, state: 'OPEN', updatedAt: '2024-02-03T00:00:00Z' },
+        { number: 4, state: 'MERGED', updatedAt: '2024-02-02T00:00:00Z' },
+      ], true, 'cursor1'))
+      .mockResolvedValueOnce(page([
+        { number: 3, state: 'CLOSED', updatedAt: '2024-02-01T00:00:00Z' },
+        { number: 2, state: 'OPEN', updatedAt: '2024-01-15T00:00:00Z' },
+      ], true, 'cursor2'));
+
+    const result = await getPRsUpdatedSince('test', 'repo', '2024-02-01T00:00:00Z');
+
+    expect(result.complete).toBe(true);
+    expect(result.prs.map((pr: any) => pr.number)).toEqual([5, 4, 3]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+    expect(body.query).toContain('orderBy: {field: UPDATED_AT, direction: DESC}');
+    expect(body.query).toContain('states: [OPEN, CLOSED, MERGED]');
+  });
+
+  it('reports an incomplete result when the page cap is hit before the watermark', async () => {
+    for (let i = 0; i < 10; i++) {
+      mockFetch.mockResolvedValueOnce(page([{ number: 100 - i, state: 'OPEN', updatedAt: '2024-03-01T00:00:00Z' }], true, `c${i}`));
+    }
+
+    const result = await getPRsUpdatedSince('test', 'repo', '2024-01-01T00:00:00Z');
+
+    expect(result.complete).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(10);
+  });
+});
+
 describe('getRecentlyMergedPRsWithReviews', () => {
   const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
 
@@ -930,6 +1084,182 @@ describe('bot reviewer filtering', () => {
   });
 });
 
+describe('getMergedPRsWithTimeline', () => {
+  const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('fetches every timeline item type once and feeds both derivations', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const createdAt = new Date(Date.now() - 6 * day).toISOString();
+    const requestedAt = new Date(Date.now() - 5 * day).toISOString();
+    const submittedAt = new Date(Date.now() - 4 * day).toISOString();
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: {
+          repository: {
+            pullRequests: {
+              pageInfo: { hasNextPage: false, endCursor: null },
+              nodes: [
+                {
+                  number: 1,
+                  url: 'https://github.com/test/repo/pull/1',
+                  createdAt,
+                  mergedAt: submittedAt,
+                  additions: 120,
+                  deletions: 30,
+                  author: { login: 'contributor' },
+                  authorAssociation: 'CONTRIBUTOR',
+                  timelineItems: {
+                    nodes: [
+                      { __typename: 'ReviewRequestedEvent', createdAt: requestedAt, requestedReviewer: { __typename: 'User', login: 'reviewer1' } },
+                      { __typename: 'PullRequestReview', author: { login: 'reviewer1' }, authorAssociation: 'MEMBER', submittedAt, state: 'APPROVED' },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        },
+      }),
+      headers: new Headers(),
+    } as Response);
+
+    const merged = await getMergedPRsWithTimeline('test', 'repo', 30);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const body = JSON.parse(mockFetch.mock.calls[0][1]!.body as string);
+    expect(body.query).toContain('itemTypes: [REVIEW_REQUESTED_EVENT, READY_FOR_REVIEW_EVENT, PULL_REQUEST_REVIEW]');
+
+    const reviewStats = deriveReviewStats(merged);
+    expect(reviewStats.reviewRequests).toEqual([{ reviewerLogin: 'reviewer1', requestedAt, prNumber: 1 }]);
+    expect(reviewStats.completedReviews[0].requestedAt).toBe(requestedAt);
+    expect(reviewStats.firstReviews).toEqual([
+      { prNumber: 1, prUrl: 'https://github.com/test/repo/pull/1', size: 'M', reviewTimeHours: expect.closeTo(48) },
+    ]);
+
+    const allStats = deriveAllPRReviewStats(merged, new Set());
+    expect(allStats.communityReviews).toHaveLength(1);
+    expect(allStats.communityReviews[0].reviewTimeHours).toBeCloseTo(48);
+  });
+
+  it('leaves bot-authored PRs out of first reviews', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const createdAt = new Date(Date.now() - 6 * day).toISOString();
+    const submittedAt = new Date(Date.now() - 4 * day).toISOString();
+
+    const reviewStats = deriveReviewStats({
+      since: new Date(Date.now() - 30 * day).toISOString(),
+      prs: [{
+        number: 2,
+        url: 'https://github.com/test/repo/pull/2',
+        createdAt,
+        mergedAt: submittedAt,
+        additions: 3,
+        deletions: 1,
+        author: { login: 'dependabot[bot]' },
+        authorAssociation: 'NONE',
+        timelineItems: {
+          nodes: [
+            { __typename: 'PullRequestReview', author: { login: 'reviewer1' }, authorAssociation: 'MEMBER', submittedAt, state: 'APPROVED' },
+          ],
+        },
+      }],
+    });
+
+    expect(reviewStats.firstReviews).toEqual([]);
+    expect(reviewStats.completedReviews).toHaveLength(1);
+  });
+});
+
+describe('merged PR window pagination', () => {
+  const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+  const day = 24 * 60 * 60 * 1000;
+  const daysAgo = (n: number) => new Date(Date.now() - n * day).toISOString();
+
+  const page = (nodes: any[], hasNextPage: boolean) => ({
+    ok: true,
+    json: async () => ({ data: { repository: { pullRequests: { pageInfo: { hasNextPage, endCursor: hasNextPage ? 'next' : null }, nodes } } } }),
+    headers: new Headers(),
+  } as Response);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('pages until updates fall before the window, skipping older merges on the way', async () => {
+    mockFetch
+      .mockResolvedValueOnce(page([
+        { number: 4, updatedAt: daysAgo(1), mergedAt: daysAgo(2) },
+        // Merged before the window but commented on since; must not stop paging
+        { number: 3, updatedAt: daysAgo(2), mergedAt: daysAgo(20) },
+      ], true))
+      .mockResolvedValueOnce(page([
+        { number: 2, updatedAt: daysAgo(5), mergedAt: daysAgo(6) },
+        { number: 1, updatedAt: daysAgo(9), mergedAt: daysAgo(9) },
+      ], true));
+
+    const merged = await getMergedPRsWithTimeline('test', 'repo', 7);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(merged.prs.map(pr => pr.number)).toEqual([4, 2]);
+    expect(merged.complete).toBe(true);
+  });
+
+  it('stops at MAX_WINDOW_PAGES and reports the result as incomplete', async () => {
+    mockFetch.mockResolvedValue(page([{ number: 1, updatedAt: daysAgo(1), mergedAt: daysAgo(1) }], true));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const merged = await getMergedPRsWithTimeline('test', 'repo', 7);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(merged.complete).toBe(false);
+    warn.mockRestore();
+  });
+});
+
+describe('getClosedPRsWithTimeline', () => {
+  const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+  const day = 24 * 60 * 60 * 1000;
+  const daysAgo = (n: number) => new Date(Date.now() - n * day).toISOString();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('keeps PRs closed in the window and stops once updates fall before it', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        data: {
+          repository: {
+            pullRequests: {
+              pageInfo: { hasNextPage: true, endCursor: 'next' },
+              nodes: [
+                { number: 3, createdAt: daysAgo(10), updatedAt: daysAgo(1), closedAt: daysAgo(2), timelineItems: { nodes: [] } },
+                // Closed long ago, only commented on recently
+                { number: 2, createdAt: daysAgo(90), updatedAt: daysAgo(3), closedAt: daysAgo(60), timelineItems: { nodes: [] } },
+                { number: 1, createdAt: daysAgo(50), updatedAt: daysAgo(40), closedAt: daysAgo(40), timelineItems: { nodes: [] } },
+              ],
+            },
+          },
+        },
+      }),
+      headers: new Headers(),
+    } as Response);
+
+    const closed = await getClosedPRsWithTimeline('test', 'repo', 30);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(mockFetch.mock.calls[0][1]!.body as string).query).toContain('states: CLOSED');
+    expect(closed.prs.map(pr => pr.number)).toEqual([3]);
+  });
+});
+
 // ─── RateLimitError ──────────────────────────────────────────────────────────
 
 describe('RateLimitError', () => {
@@ -1028,6 +1358,142 @@ describe('rate limit detection via HTTP status', () => {
   });
 });
 
+// ─── Retries (fetchGitHub) ────────────────────────────────────────────────────
+
+describe('retries with backoff', () => {
+  const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+  beforeEach(() => jest.clearAllMocks());
+
+  function makeResponse(status: number, headers: Record<string, string> = {}): Response {
+    return {
+      ok: status < 400,
+      status,
+      statusText: status < 400 ? 'OK' : 'Error',
+      headers: new Headers(headers),
+      json: async () => ({
+        data: { repository: { pullRequests: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [{ number: 1, state: 'OPEN' }] } } },
+      }),
+    } as Response;
+  }
+
+  it('retries transient 5xx responses', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse(502))
+      .mockResolvedValueOnce(makeResponse(503))
+      .mockResolvedValueOnce(makeResponse(200));
+
+    const prs = await getOpenPRsGraphQL('o', 'r');
+
+    expect(prs).toHaveLength(1);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured number of attempts', async () => {
+    mockFetch.mockResolvedValue(makeResponse(502));
+
+    const err = await getOpenPRsGraphQL('o', 'r').catch(e => e);
+
+    expect(err).toBeInstanceOf(GitHubAPIError);
+    expect(err.status).toBe(502);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not wait out a 5xx Retry-After longer than the max retry delay', async () => {
+    mockFetch.mockResolvedValue(makeResponse(503, { 'retry-after': '3600' }));
+
+    const err = await getOpenPRsGraphQL('o', 'r').catch(e => e);
+
+    expect(err).toBeInstanceOf(GitHubAPIError);
+    expect(err.status).toBe(503);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries network errors', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(makeResponse(200));
+
+    await expect(getOpenPRsGraphQL('o', 'r')).resolves.toHaveLength(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits out a secondary rate limit (403 with Retry-After)', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse(403, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(makeResponse(200));
+
+    await expect(getOpenPRsGraphQL('o', 'r')).resolves.toHaveLength(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws RateLimitError when Retry-After is longer than the max retry delay', async () => {
+    mockFetch.mockResolvedValueOnce(makeResponse(403, { 'retry-after': '120' }));
+
+    const err = await getOpenPRsGraphQL('o', 'r').catch(e => e);
+
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for x-ratelimit-reset when the primary limit resets within the max retry delay', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse(403, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': String(Math.floor(Date.now() / 1000)),
+      }))
+      .mockResolvedValueOnce(makeResponse(200));
+
+    await expect(getOpenPRsGraphQL('o', 'r')).resolves.toHaveLength(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry fatal client errors', async () => {
+    mockFetch.mockResolvedValueOnce(makeResponse(401));
+
+    const err = await getOpenPRsGraphQL('o', 'r').catch(e => e);
+
+    expect(err).toBeInstanceOf(GitHubAPIError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts requests that exceed the timeout and retries them', async () => {
+    mockFetch
+      .mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+        init!.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      }))
+      .mockResolvedValueOnce(makeResponse(200));
+
+    await expect(getOpenPRsGraphQL('o', 'r')).resolves.toHaveLength(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('times out a response whose body stalls after the headers arrive', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    try {
+      // Like fetch, the body stream errors once the request is aborted
+      mockFetch.mockImplementation(async (_url, init) => new Response(new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"data":'));
+          init!.signal!.addEventListener('abort', () => controller.error(new DOMException('aborted', 'AbortError')));
+        },
+      }), { status: 200 }));
+
+      const result = getOpenPRsGraphQL('o', 'r').catch(e => e);
+      // Each attempt waits out the 1s timeout, then a short backoff
+      await jest.advanceTimersByTimeAsync(5000);
+      const err = await result;
+
+      expect(err).toBeInstanceOf(GitHubAPIError);
+      expect(err.status).toBe(408);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    } finally {
+      mockFetch.mockReset();
+      jest.useRealTimers();
+    }
+  });
+});
+
 // ─── Rate limit detection via GraphQL error body (graphql) ───────────────────
 
 describe('rate limit detection via GraphQL error body', () => {
@@ -0,0 +1,277 @@
+/**
+ * @jest-environment node
+ */
+
+import { createVerify, generateKeyPairSync } from 'crypto';
+
+const { privateKey: mockPrivateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+});
+
+const mockApp = { appId: '12345', privateKey: mockPrivateKey, installationId: '' };
+const mockTokens = { list: ['pat-token'] };
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    github: {
+      get tokens() { return mockTokens.list; },
+      get app() { return mockApp; },
+      apiUrl: 'https://api.github.com',
+      graphqlUrl: '',
+      enterprise: { url: '', token: '', orgs: [] },
+    },
+    orgs: ['org-a', 'org-b'],
+    requests: { maxAttempts: 3, retryBaseDelayMs: 1, maxRetryDelayMs: 1000, timeoutMs: 1000 },
+    limits: { maxPrPagesPerRepo: 10 },
+  },
+}));
+
+import {
+  createAppJwt,
+  getGitHubToken,
+  getTokenPoolStatus,
+  isGitHubAppConfigured,
+  recordRateLimit,
+  resetGitHubAuthState,
+} from '@/lib/githubAuth';
+import { getOpenPRsGraphQL, RateLimitError } from '@/lib/github';
+
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+const HOUR = 60 * 60 * 1000;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return {
+    ok: status < 400,
+    status,
+    statusText: status < 400 ? 'OK' : 'Not Found',
+    json: async () => body,
+    headers: new Headers(),
+  } as Response;
+}
+
+// Answers installation lookups and token exchanges; tokens are numbered per exchange
+function mockGitHubApp(installations: Record<string, number>, expiresInMs = HOUR, userInstallations: Record<string, number> = {}) {
+  let issued = 0;
+  mockFetch.mockImplementation(async (input, init) => {
+    const url = String(input);
+    const org = url.match(/\/orgs\/([^/]+)\/installation$/)?.[1];
+    if (org) {
+      return installations[org] ? jsonResponse({ id: installations[org] }) : jsonResponse({}, 404);
+    }
+    const user = url.match(/\/users\/([^/]+)\/installation$/)?.[1];
+    if (user) {
+      return userInstallations[user] ? jsonResponse({ id: userInstallations[user] }) : jsonResponse({}, 404);
+    }
+    const installationId = url.match(/\/app\/installations\/(\d+)\/access_tokens$/)?.[1];
+    if (installationId && init?.method === 'POST') {
+      issued++;
+      return jsonResponse({
+        token: `inst-${installationId}-${issued}`,
+        expires_at: new Date(Date.now() + expiresInMs).toISOString(),
+      });
+    }
+    throw new Error(`Unexpected request: ${url}`);
+  });
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useRealTimers();
+  resetGitHubAuthState();
+  mockApp.appId = '12345';
+  mockApp.privateKey = mockPrivateKey;
+  mockApp.installationId = '';
+  mockTokens.list = ['pat-token'];
+});
+
+describe('createAppJwt', () => {
+  it('signs an RS256 JWT with the app id as issuer', () => {
+    const now = Date.parse('2024-06-01T00:00:00Z');
+    const [header, payload, signature] = createAppJwt(now).split('.');
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ alg: 'RS256', typ: 'JWT' });
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    expect(claims.iss).toBe('12345');
+    expect(claims.iat).toBe(now / 1000 - 60);
+    expect(claims.exp - claims.iat).toBeLessThanOrEqual(10 * 60);
+
+    const valid = createVerify('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .verify(publicKey, Buffer.from(signature, 'base64url'));
+    expect(valid).toBe(true);
+  });
+});
+
+describe('getGitHubToken', () => {
+  it('uses the personal access token when no app is configured', async () => {
+    mockApp.appId = '';
+
+    expect(isGitHubAppConfigured()).toBe(false);
+    expect(await getGitHubToken('org-a')).toBe('pat-token');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('exchanges the app JWT for an installation token and caches it', async () => {
+    mockGitHubApp({ 'org-a': 1 });
+
+    expect(await getGitHubToken('org-a')).toBe('inst-1-1');
+    expect(await getGitHubToken('org-a')).toBe('inst-1-1');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2); // lookup + one exchange
+    const [, init] = mockFetch.mock.calls[1];
+    expect((init!.headers as Record<string, string>).Authorization).toMatch(/^Bearer [\w-]+\.[\w-]+\.[\w-]+$/);
+  });
+
+  it('picks the installation for each org', async () => {
+    mockGitHubApp({ 'org-a': 1, 'org-b': 2 });
+
+    expect(await getGitHubToken('org-a')).toBe('inst-1-1');
+    expect(await getGitHubToken('org-b')).toBe('inst-2-2');
+    expect(await getGitHubToken()).toBe('inst-1-1'); // defaults to the first configured org
+  });
+
+  it('falls back to the user installation for user-owned repos', async () => {
+    mockGitHubApp({}, HOUR, { 'some-user': 3 });
+
+    expect(await getGitHubToken('some-user')).toBe('inst-3-1');
+    expect(mockFetch.mock.calls.map(([url]) => String(url))).toEqual([
+      expect.stringMatching(/\/orgs\/some-user\/installation$/),
+      expect.stringMatching(/\/users\/some-user\/installation$/),
+      expect.stringMatching(/\/app\/installations\/3\/access_tokens$/),
+    ]);
+  });
+
+  it('refreshes a token shortly before it expires', async () => {
+    jest.useFakeTimers({ now: Date.parse('2024-06-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    mockGitHubApp({ 'org-a': 1 });
+
+    expect(await getGitHubToken('org-a')).toBe('inst-1-1');
+
+    jest.setSystemTime(Date.parse('2024-06-01T00:50:00Z'));
+    expect(await getGitHubToken('org-a')).toBe('inst-1-1');
+
+    jest.setSystemTime(Date.parse('2024-06-01T00:56:00Z'));
+    expect(await getGitHubToken('org-a')).toBe('inst-1-2');
+  });
+
+  it('shares one exchange between concurrent requests', async () => {
+    mockGitHubApp({ 'org-a': 1 });
+    await getGitHubToken('org-a');
+    resetGitHubAuthState();
+    mockFetch.mockClear();
+    mockApp.installationId = '1';
+
+    const tokens = await Promise.all([getGitHubToken('org-a'), getGitHubToken('org-b')]);
+
+    expect(new Set(tokens).size).toBe(1);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails with a GitHubAPIError when the app is not installed on the owner', async () => {
+    mockGitHubApp({});
+
+    await expect(getGitHubToken('org-a')).rejects.toMatchObject({ name: 'GitHubAPIError', status: 404 });
+  });
+});
+
+describe('token pool', () => {
+  const inAnHour = () => new Date(Date.now() + HOUR).toISOString();
+
+  beforeEach(() => {
+    mockApp.appId = '';
+    mockTokens.list = ['token-a', 'token-b', 'token-c'];
+  });
+
+  function graphqlResponse(remaining: number, status = 200): Response {
+    const resetEpoch = Math.floor(Date.now() / 1000) + 3600;
+    return {
+      ok: status < 400,
+      status,
+      statusText: status < 400 ? 'OK' : 'Forbidden',
+      json: async () => ({
+        data: {
+          repository: { pullRequests: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] } },
+          rateLimit: { remaining, resetAt: new Date(resetEpoch * 1000).toISOString() },
+        },
+      }),
+      headers: new Headers({ 'x-ratelimit-remaining': String(remaining), 'x-ratelimit-reset': String(resetEpoch) }),
+    } as Response;
+  }
+
+  const authHeader = (call: number) =>
+    (mockFetch.mock.calls[call][1]!.headers as Record<string, string>).Authorization;
+
+  it('picks the token with the most remaining budget', async () => {
+    recordRateLimit('token-a', { remaining: 100, resetAt: inAnHour() });
+    recordRateLimit('token-b', { remaining: 4000, resetAt: inAnHour() });
+    recordRateLimit('token-c', { remaining: 2500, resetAt: inAnHour() });
+
+    expect(await getGitHubToken()).toBe('token-b');
+  });
+
+  it('treats tokens as fresh once their window has reset', async () => {
+    recordRateLimit('token-a', { remaining: 0, resetAt: new Date(Date.now() - 1000).toISOString() });
+    recordRateLimit('token-b', { remaining: 10, resetAt: inAnHour() });
+    recordRateLimit('token-c', { remaining: 10, resetAt: inAnHour() });
+
+    expect(await getGitHubToken()).toBe('token-a');
+  });
+
+  it('throws RateLimitError with the earliest reset only when every token is exhausted', async () => {
+    const soon = new Date(Date.now() + 10 * 60 * 1000).toISOString();
+    recordRateLimit('token-a', { remaining: 0, resetAt: inAnHour() });
+    recordRateLimit('token-b', { remaining: 0, resetAt: soon });
+    recordRateLimit('token-c', { remaining: 1, resetAt: inAnHour() });
+
+    expect(await getGitHubToken()).toBe('token-c');
+
+    recordRateLimit('token-c', { remaining: 0, resetAt: inAnHour() });
+    const err = await getGitHubToken().catch(e => e);
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect(err.resetAt).toBe(soon);
+  });
+
+  it('tracks remaining budget from the rateLimit block of each query', async () => {
+    mockFetch.mockResolvedValueOnce(graphqlResponse(1234));
+
+    await getOpenPRsGraphQL('org-a', 'repo');
+
+    expect(authHeader(0)).toBe('Bearer token-a');
+    expect(getTokenPoolStatus()[0]).toMatchObject({ remaining: 1234 });
+    expect(getTokenPoolStatus()[0].token).toBe('token 1');
+  });
+
+  it('rotates to the next token when a request is rate limited', async () => {
+    mockFetch
+      .mockResolvedValueOnce(graphqlResponse(0, 403))
+      .mockResolvedValueOnce(graphqlResponse(0, 403))
+      .mockResolvedValueOnce(graphqlResponse(4999));
+
+    await getOpenPRsGraphQL('org-a', 'repo');
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect([authHeader(0), authHeader(1), authHeader(2)]).toEqual([
+      'Bearer token-a',
+      'Bearer token-b',
+      'Bearer token-c',
+    ]);
+
+    // Exhausted tokens are skipped on later requests
+    mockFetch.mockResolvedValueOnce(graphqlResponse(4998));
+    await getOpenPRsGraphQL('org-a', 'repo');
+    expect(authHeader(3)).toBe('Bearer token-c');
+  });
+
+  it('surfaces RateLimitError once the whole pool is exhausted', async () => {
+    mockFetch.mockResolvedValue(graphqlResponse(0, 403));
+
+    const err = await getOpenPRsGraphQL('org-a', 'repo').catch(e => e);
+
+    expect(err).toBeInstanceOf(RateLimitError);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
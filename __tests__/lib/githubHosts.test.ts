@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+
+const mockGitHubConfig = {
+  tokens: ['dotcom-token'],
+  app: { appId: '', privateKey: '', installationId: '' },
+  apiUrl: 'https://api.github.com',
+  graphqlUrl: '',
+  enterprise: { url: '', token: '', orgs: [] as string[] },
+};
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    get github() { return mockGitHubConfig; },
+    orgs: ['OpenHands'],
+    requests: { maxAttempts: 1, retryBaseDelayMs: 1, maxRetryDelayMs: 1000, timeoutMs: 1000 },
+    limits: { maxPrPagesPerRepo: 10, maxNestedPages: 2, maxWindowPages: 3 },
+  },
+}));
+
+import { formatRepoId, getDefaultHost, hostForOwner, parseRepoId } from '@/lib/githubHosts';
+import { getOpenPRsGraphQL } from '@/lib/github';
+import { resetGitHubAuthState } from '@/lib/githubAuth';
+
+global.fetch = jest.fn();
+const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetGitHubAuthState();
+  mockGitHubConfig.apiUrl = 'https://api.github.com';
+  mockGitHubConfig.graphqlUrl = '';
+  mockGitHubConfig.enterprise = { url: 'https://ghe.example.com/', token: 'ghe-token', orgs: ['Partner'] };
+});
+
+describe('hosts', () => {
+  it('defaults to github.com', () => {
+    expect(getDefaultHost()).toEqual({
+      name: 'github.com',
+      apiUrl: 'https://api.github.com',
+      graphqlUrl: 'https://api.github.com/graphql',
+      isEnterprise: false,
+    });
+  });
+
+  it('can point the default host at a GHES instance', () => {
+    mockGitHubConfig.apiUrl = 'https://ghe.internal/api/v3/';
+    mockGitHubConfig.graphqlUrl = 'https://ghe.internal/api/graphql';
+
+    expect(getDefaultHost()).toMatchObject({
+      name: 'ghe.internal',
+      apiUrl: 'https://ghe.internal/api/v3',
+      graphqlUrl: 'https://ghe.internal/api/graphql',
+    });
+  });
+
+  it('routes enterprise orgs to the enterprise instance', () => {
+    expect(hostForOwner('partner')).toEqual({
+      name: 'ghe.example.com',
+      apiUrl: 'https://ghe.example.com/api/v3',
+      graphqlUrl: 'https://ghe.example.com/api/graphql',
+      isEnterprise: true,
+    });
+    expect(hostForOwner('OpenHands').name).toBe('github.com');
+  });
+});
+
+describe('repo ids', () => {
+  it('host-qualifies enterprise repos only', () => {
+    expect(formatRepoId('Partner', 'app')).toBe('ghe.example.com/Partner/app');
+    expect(formatRepoId('OpenHands', 'docs')).toBe('OpenHands/docs');
+  });
+
+  it('parses plain and host-qualified ids', () => {
+    expect(parseRepoId('OpenHands/docs')).toMatchObject({ owner: 'OpenHands', repo: 'docs', host: { name: 'github.com' } });
+    expect(parseRepoId('ghe.example.com/Partner/app')).toMatchObject({ owner: 'Partner', repo: 'app', host: { name: 'ghe.example.com' } });
+    expect(parseRepoId('Partner/app')?.host.name).toBe('ghe.example.com');
+    expect(parseRepoId('github.com/OpenHands/docs')?.host.name).toBe('github.com');
+  });
+
+  it('rejects ids whose host is not configured for that owner', () => {
+    expect(parseRepoId('evil.example.com/OpenHands/docs')).toBeNull();
+    expect(parseRepoId('ghe.example.com/OpenHands/docs')).toBeNull();
+    expect(parseRepoId('just-a-name')).toBeNull();
+  });
+});
+
+describe('requests', () => {
+  const emptyPage = {
+    ok: true,
+    json: async () => ({ data: { repository: { pullRequests: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] } } } }),
+    headers: new Headers(),
+  } as Response;
+
+  it('sends enterprise queries to the enterprise GraphQL endpoint with its token', async () => {
+    mockFetch.mockResolvedValue(emptyPage);
+
+    await getOpenPRsGraphQL('Partner', 'app');
+    await getOpenPRsGraphQL('OpenHands', 'docs');
+
+    const [[gheUrl, gheInit], [dotcomUrl, dotcomInit]] = mockFetch.mock.calls;
+    expect(gheUrl).toBe('https://ghe.example.com/api/graphql');
+    expect((gheInit!.headers as Record<string, string>).Authorization).toBe('Bearer ghe-token');
+    expect(dotcomUrl).toBe('https://api.github.com/graphql');
+    expect((dotcomInit!.headers as Record<string, string>).Authorization).toBe('Bearer dotcom-token');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+import { readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const mockGitHubConfig = {
+  mode: 'record',
+  fixturesDir: join(tmpdir(), `github-fixtures-test-${process.pid}`),
+};
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    get github() { return mockGitHubConfig; },
+  },
+}));
+
+import { fetchWithRecording, fixtureKey } from '@/lib/githubRecorder';
+import { GitHubAPIError } from '@/lib/githubErrors';
+
+const GRAPHQL_URL = 'https://api.github.com/graphql';
+
+function graphqlRequest(query: string, variables: Record<string, unknown>): RequestInit {
+  return {
+    method: 'POST',
+    headers: { Authorization: 'Bearer secret-token', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+  };
+}
+
+function liveResponse(body: unknown, headers: Record<string, string> = {}) {
+  return jest.fn(async () => new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'content-type': 'application/json', ...headers },
+  }));
+}
+
+beforeEach(() => {
+  rmSync(mockGitHubConfig.fixturesDir, { recursive: true, force: true });
+  mockGitHubConfig.mode = 'record';
+});
+
+afterAll(() => {
+  rmSync(mockGitHubConfig.fixturesDir, { recursive: true, force: true });
+});
+
+describe('fixtureKey', () => {
+  it('ignores query whitespace and variable order', () => {
+    const a = JSON.stringify({ query: 'query { viewer { login } }', variables: { owner: 'o', name: 'r' } });
+    const b = JSON.stringify({ query: 'query {\n  viewer {\n    login\n  }\n}', variables: { name: 'r', owner: 'o' } });
+    expect(fixtureKey('POST', GRAPHQL_URL, a)).toBe(fixtureKey('post', GRAPHQL_URL, b));
+  });
+
+  it('distinguishes variables and URLs', () => {
+    const body = (cursor: string | null) => JSON.stringify({ query: 'query { x }', variables: { cursor } });
+    expect(fixtureKey('POST', GRAPHQL_URL, body(null))).not.toBe(fixtureKey('POST', GRAPHQL_URL, body('abc')));
+    expect(fixtureKey('GET', 'https://api.github.com/rate_limit')).not.toBe(fixtureKey('GET', 'https://ghe.example.com/api/v3/rate_limit'));
+  });
+});
+
+describe('fetchWithRecording', () => {
+  it('records a response and replays it without the network', async () => {
+    const options = graphqlRequest('query { viewer { login } }', { owner: 'o' });
+    const fetchLive = liveResponse({ data: { viewer: { login: 'octocat' } } }, { 'x-ratelimit-remaining': '4999', 'set-cookie': 'a=b' });
+
+    const recorded = await fetchWithRecording(GRAPHQL_URL, options, fetchLive);
+    expect(await recorded.json()).toEqual({ data: { viewer: { login: 'octocat' } } });
+    expect(fetchLive).toHaveBeenCalledTimes(1);
+
+    mockGitHubConfig.mode = 'replay';
+    const offline = jest.fn();
+    const replayed = await fetchWithRecording(GRAPHQL_URL, options, offline);
+
+    expect(offline).not.toHaveBeenCalled();
+    expect(replayed.status).toBe(200);
+    expect(replayed.headers.get('x-ratelimit-remaining')).toBe('4999');
+    expect(await replayed.json()).toEqual({ data: { viewer: { login: 'octocat' } } });
+  });
+
+  it('keeps credentials and unlisted headers out of fixtures', async () => {
+    await fetchWithRecording(GRAPHQL_URL, graphqlRequest('query { x }', {}), liveResponse({ data: {} }, { 'set-cookie': 'session=1' }));
+
+    const [file] = readdirSync(mockGitHubConfig.fixturesDir);
+    const contents = readFileSync(join(mockGitHubConfig.fixturesDir, file), 'utf8');
+    expect(contents).not.toContain('secret-token');
+    expect(contents).not.toContain('session=1');
+    expect(JSON.parse(contents).request).toEqual({ method: 'POST', url: GRAPHQL_URL, query: 'query { x }', variables: {} });
+  });
+
+  it('fails clearly when a replayed request was never recorded', async () => {
+    mockGitHubConfig.mode = 'replay';
+    const request = fetchWithRecording('https://api.github.com/rate_limit', {}, jest.fn());
+
+    await expect(request).rejects.toBeInstanceOf(GitHubAPIError);
+    await expect(request).rejects.toThrow(/GITHUB_MODE=record/);
+  });
+
+  it('passes straight through in live mode', async () => {
+    mockGitHubConfig.mode = 'live';
+    const fetchLive = liveResponse([]);
+
+    await fetchWithRecording('https://api.github.com/orgs/o/members', {}, fetchLive);
+
+    expect(fetchLive).toHaveBeenCalledTimes(1);
+    expect(() => readdirSync(mockGitHubConfig.fixturesDir)).toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    cache: { ttlSeconds: 60, prDataTtlSeconds: 60 },
+    sync: { mode: 'incremental', fullResyncMinutes: 60 },
+  },
+}));
+
+jest.mock('@/lib/github', () => ({
+  getOpenPRsGraphQL: jest.fn(),
+  getPRsUpdatedSince: jest.fn(),
+  getMergedPRsWithTimeline: jest.fn(),
+  getClosedPRsWithTimeline: jest.fn(),
+}));
+
+import { getOpenPRsGraphQL, getPRsUpdatedSince } from '@/lib/github';
+import { resetSyncState, syncRepoOpenPRs } from '@/lib/prStore';
+
+const mockGetOpenPRs = getOpenPRsGraphQL as jest.MockedFunction<typeof getOpenPRsGraphQL>;
+const mockGetUpdatedSince = getPRsUpdatedSince as jest.MockedFunction<typeof getPRsUpdatedSince>;
+
+function rawPR(number: number, state: string, createdAt: string, updatedAt: string) {
+  return { number, state, createdAt, updatedAt, title: `PR ${number}` };
+}
+
+const T0 = Date.parse('2024-05-01T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resetSyncState();
+  mockGetOpenPRs.mockResolvedValue([
+    rawPR(2, 'OPEN', '2024-04-02T00:00:00Z', '2024-04-30T00:00:00Z'),
+    rawPR(1, 'OPEN', '2024-04-01T00:00:00Z', '2024-04-20T00:00:00Z'),
+  ]);
+});
+
+describe('syncRepoOpenPRs', () => {
+  it('does a full fetch the first time a repo is synced', async () => {
+    const prs = await syncRepoOpenPRs('owner', 'repo', T0);
+
+    expect(prs.map(pr => pr.number)).toEqual([2, 1]);
+    expect(mockGetOpenPRs).toHaveBeenCalledTimes(1);
+    expect(mockGetUpdatedSince).not.toHaveBeenCalled();
+  });
+
+  it('queries from the latest updatedAt and merges updates, additions and closures', async () => {
+    await syncRepoOpenPRs('owner', 'repo', T0);
+
+    mockGetUpdatedSince.mockResolvedValueOnce({
+      complete: true,
+      prs: [
+        rawPR(3, 'OPEN', '2024-05-01T10:00:00Z', '2024-05-01T11:00:00Z'),
+        rawPR(2, 'MERGED', '2024-04-02T00:00:00Z', '2024-05-01T10:30:00Z'),
+        rawPR(1, 'OPEN', '2024-04-01T00:00:00Z', '2024-05-01T10:00:00Z'),
+      ],
+    });
+
+    const prs = await syncRepoOpenPRs('owner', 'repo', T0 + 5 * MINUTE);
+
+    expect(mockGetUpdatedSince).toHaveBeenCalledWith('owner', 'repo', '2024-04-30T00:00:00Z');
+    expect(prs.map(pr => pr.number)).toEqual([3, 1]);
+    expect(prs[1].updatedAt).toBe('2024-05-01T10:00:00Z');
+
+    mockGetUpdatedSince.mockResolvedValueOnce({ complete: true, prs: [] });
+    await syncRepoOpenPRs('owner', 'repo', T0 + 10 * MINUTE);
+
+    expect(mockGetUpdatedSince).toHaveBeenLastCalledWith('owner', 'repo', '2024-05-01T11:00:00Z');
+    expect(mockGetOpenPRs).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to a full fetch when the incremental query hit its page cap', async () => {
+    await syncRepoOpenPRs('owner', 'repo', T0);
+    mockGetUpdatedSince.mockResolvedValueOnce({ complete: false, prs: [] });
+
+    await syncRepoOpenPRs('owner', 'repo', T0 + MINUTE);
+
+    expect(mockGetOpenPRs).toHaveBeenCalledTimes(2);
+  });
+
+  it('does a periodic full resync', async () => {
+    await syncRepoOpenPRs('owner', 'repo', T0);
+    await syncRepoOpenPRs('owner', 'repo', T0 + 61 * MINUTE);
+
+    expect(mockGetOpenPRs).toHaveBeenCalledTimes(2);
+    expect(mockGetUpdatedSince).not.toHaveBeenCalled();
+  });
+
+  it('keeps separate state per repo', async () => {
+    await syncRepoOpenPRs('owner', 'alpha', T0);
+    await syncRepoOpenPRs('owner', 'beta', T0);
+
+    expect(mockGetOpenPRs).toHaveBeenCalledWith('owner', 'alpha');
+    expect(mockGetOpenPRs).toHaveBeenCalledWith('owner', 'beta');
+    expect(mockGetUpdatedSince).not.toHaveBeenCalled();
+  });
+});
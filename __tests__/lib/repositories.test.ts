@@ -0,0 +1,159 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    orgs: ['acme', 'ACME'],
+    github: { apiUrl: 'https://api.github.com', graphqlUrl: '', enterprise: { url: '', token: '', orgs: [] } },
+    repos: { include: [], exclude: [], includeForks: true, includeArchived: false, includePrivate: false, topics: [], discoveryTtlSeconds: 3600 },
+    cache: { backend: 'memory' },
+  },
+}));
+
+jest.mock('@/lib/github', () => {
+  const actual = jest.requireActual<typeof import('@/lib/githubErrors')>('@/lib/githubErrors');
+  return {
+    RateLimitError: actual.RateLimitError,
+    getOrgRepositories: jest.fn(),
+    getRepositoryREST: jest.fn(),
+  };
+});
+
+import { cache } from '@/lib/cache';
+import { config } from '@/lib/config';
+import { getOrgRepositories, getRepositoryREST, RateLimitError } from '@/lib/github';
+import { discoverRepositories, discoverRepositoryIds, filterVisibleRepoIds, matchesRepoPattern } from '@/lib/repositories';
+import { PUBLIC_VIEWER } from '@/lib/viewer';
+
+const mockGetOrgRepositories = getOrgRepositories as jest.MockedFunction<typeof getOrgRepositories>;
+const mockGetRepositoryREST = getRepositoryREST as jest.MockedFunction<typeof getRepositoryREST>;
+
+const rawRepo = (owner: string, name: string, overrides: Record<string, unknown> = {}) => ({
+  id: name.length,
+  name,
+  owner: { login: owner },
+  description: null,
+  stargazers_count: 0,
+  language: null,
+  updated_at: '2024-01-01T00:00:00Z',
+  html_url: `https://github.com/${owner}/${name}`,
+  topics: [],
+  fork: false,
+  archived: false,
+  ...overrides,
+});
+
+const defaultRepos = { ...config.repos };
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  await cache.clear();
+  Object.assign(config.repos, defaultRepos);
+  mockGetOrgRepositories.mockResolvedValue([
+    rawRepo('acme', 'widgets', { stargazers_count: 10, topics: ['community'] }),
+    rawRepo('acme', 'gadgets', { stargazers_count: 50 }),
+    rawRepo('acme', 'widgets-fork', { fork: true }),
+    rawRepo('acme', 'legacy', { archived: true }),
+    rawRepo('acme', 'frozen', { disabled: true }),
+    rawRepo('acme', 'docs'),
+  ]);
+});
+
+describe('matchesRepoPattern', () => {
+  it('matches `*` within one segment, ignoring case', () => {
+    expect(matchesRepoPattern('acme/*', 'Acme/Widgets')).toBe(true);
+    expect(matchesRepoPattern('*/docs', 'acme/docs')).toBe(true);
+    expect(matchesRepoPattern('acme/widget*', 'acme/widgets-fork')).toBe(true);
+    expect(matchesRepoPattern('acme/*', 'ghe.example.com/acme/widgets')).toBe(false);
+    expect(matchesRepoPattern('acme/widgets', 'acme/widgets-fork')).toBe(false);
+  });
+});
+
+describe('discoverRepositories', () => {
+  it('lists each org once, skipping archived and disabled repos, most-starred first', async () => {
+    expect(await discoverRepositoryIds(PUBLIC_VIEWER)).toEqual(['acme/gadgets', 'acme/widgets', 'acme/docs', 'acme/widgets-fork']);
+    expect(mockGetOrgRepositories).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies include and exclude globs', async () => {
+    config.repos.include = ['acme/*'];
+    config.repos.exclude = ['*/widgets*'];
+
+    expect(await discoverRepositoryIds(PUBLIC_VIEWER)).toEqual(['acme/gadgets', 'acme/docs']);
+  });
+
+  it('applies the fork, archive and topic settings', async () => {
+    config.repos.includeForks = false;
+    config.repos.includeArchived = true;
+    expect(await discoverRepositoryIds(PUBLIC_VIEWER)).toEqual(['acme/gadgets', 'acme/widgets', 'acme/docs', 'acme/legacy']);
+
+    await cache.clear();
+    config.repos.topics = ['community'];
+    expect(await discoverRepositoryIds(PUBLIC_VIEWER)).toEqual(['acme/widgets']);
+  });
+
+  it('looks up included repos from outside the configured orgs', async () => {
+    config.repos.include = ['acme/docs', 'partner/sdk'];
+    mockGetRepositoryREST.mockResolvedValue(rawRepo('partner', 'sdk'));
+
+    expect(await discoverRepositoryIds(PUBLIC_VIEWER)).toEqual(['acme/docs', 'partner/sdk']);
+    expect(mockGetRepositoryREST).toHaveBeenCalledTimes(1);
+    expect(mockGetRepositoryREST).toHaveBeenCalledWith('partner', 'sdk');
+  });
+
+  it('only lists private repos with REPOS_INCLUDE_PRIVATE, and only to internal viewers', async () => {
+    mockGetOrgRepositories.mockResolvedValue([rawRepo('acme', 'widgets'), rawRepo('acme', 'partners', { private: true })]);
+    expect(await discoverRepositoryIds({ internal: true })).toEqual(['acme/widgets']);
+    expect(mockGetOrgRepositories).toHaveBeenCalledWith('acme', false);
+
+    await cache.clear();
+    config.repos.includePrivate = true;
+    expect(await discoverRepositoryIds({ internal: true })).toEqual(['acme/partners', 'acme/widgets']);
+    expect(await discoverRepositoryIds(PUBLIC_VIEWER)).toEqual(['acme/widgets']);
+    expect(mockGetOrgRepositories).toHaveBeenLastCalledWith('acme', true);
+  });
+
+  it('drops requested repos a public viewer may not see', async () => {
+    mockGetOrgRepositories.mockResolvedValue([rawRepo('acme', 'widgets'), rawRepo('acme', 'partners', { private: true })]);
+    mockGetRepositoryREST.mockImplementation(async (owner, name) =>
+      rawRepo(owner, name, { private: name !== 'repo' }));
+    const requested = ['Acme/Widgets', 'acme/partners', 'other/repo'];
+
+    expect(await filterVisibleRepoIds(requested, { internal: true })).toEqual(requested);
+    expect(await filterVisibleRepoIds(requested, PUBLIC_VIEWER)).toEqual(['Acme/Widgets', 'other/repo']);
+
+    config.repos.includePrivate = true;
+    await cache.clear();
+    expect(await filterVisibleRepoIds(requested, PUBLIC_VIEWER)).toEqual(['Acme/Widgets', 'other/repo']);
+  });
+
+  it('checks requested repos outside the tracked set even without REPOS_INCLUDE_PRIVATE', async () => {
+    // The token can read acme/secret, but it was never discovered because private repos aren't tracked
+    mockGetRepositoryREST.mockResolvedValue(rawRepo('acme', 'secret', { private: true }));
+
+    expect(await filterVisibleRepoIds(['acme/secret'], PUBLIC_VIEWER)).toEqual([]);
+    expect(mockGetRepositoryREST).toHaveBeenCalledWith('acme', 'secret');
+
+    // Looked up once per discovery TTL
+    await filterVisibleRepoIds(['acme/secret'], PUBLIC_VIEWER);
+    expect(mockGetRepositoryREST).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches the result', async () => {
+    await discoverRepositories();
+    await discoverRepositories();
+
+    expect(mockGetOrgRepositories).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails instead of caching an empty list when every org fails, and passes rate limits through', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetOrgRepositories.mockRejectedValueOnce(new Error('boom'));
+    await expect(discoverRepositories()).rejects.toThrow('every configured org');
+    error.mockRestore();
+
+    mockGetOrgRepositories.mockRejectedValueOnce(new RateLimitError(new Date().toISOString()));
+    await expect(discoverRepositories()).rejects.toBeInstanceOf(RateLimitError);
+  });
+});
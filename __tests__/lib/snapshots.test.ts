@@ -0,0 +1,191 @@
+/**
+ * @jest-environment node
+ */
+
+import { rmSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const mockSnapshotDir = join(tmpdir(), `snapshots-test-${process.pid}`);
+
+// An absolute dir overrides the process.cwd()-relative default
+jest.mock('@/lib/config', () => ({
+  config: {
+    snapshots: {
+      get dir() { return mockSnapshotDir; },
+      intervalMinutes: 60,
+    },
+    teamReviews: { countAsAssigned: true, load: 'members' },
+  },
+}));
+
+import { buildSnapshot, getKpiHistory, maybeRecordSnapshot, readSnapshots, writeSnapshot } from '@/lib/snapshots';
+import { DashboardData, PR } from '@/lib/types';
+
+function makePR(overrides: Partial<PR> = {}): PR {
+  return {
+    repo: 'owner/alpha',
+    number: 1,
+    title: 'PR',
+    url: 'https://github.com/owner/alpha/pull/1',
+    authorLogin: 'someone',
+    authorAssociation: 'CONTRIBUTOR',
+    authorType: 'community',
+    isEmployeeAuthor: false,
+    isFirstTimeContributor: false,
+    isDraft: false,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    readyForReviewAt: '2024-01-01T00:00:00Z',
+    labels: [],
+    requestedReviewers: { users: [], teams: [] },
+    reviews: [],
+    ageHours: 1,
+    needsFirstResponse: true,
+    overdueFirstResponse: false,
+    overdueFirstReview: false,
+    ...overrides,
+  };
+}
+
+function makeData(prs: PR[], medianResponseTimeHours: number | null): DashboardData {
+  return {
+    kpis: {
+      openCommunityPrs: prs.length,
+      communityPrPercentage: '100%',
+      medianResponseTime: 'N/A',
+      medianReviewTime: 'N/A',
+      reviewerCompliance: '0%',
+      pendingReviews: 0,
+      activeReviewers: 1,
+      prsWithoutReviewers: prs.length,
+      communityPrsClosedWithoutReview: 0,
+      medianCommunityTimeToClose: 'N/A',
+      firstTimeContributorsWaiting: 0,
+    },
+    metrics: {
+      openCommunityPrs: prs.length,
+      communityPrPct: 100,
+      medianResponseTimeHours,
+      medianReviewTimeHours: null,
+      reviewerCompliancePct: 0,
+      pendingReviews: 0,
+      activeReviewers: 1,
+      prsWithoutReviewers: prs.length,
+      communityPrsClosedWithoutReview: 0,
+      medianCommunityTimeToCloseHours: null,
+      firstTimeContributorsWaiting: 0,
+    },
+    prs,
+    reviewers: [{
+      name: 'reviewer1',
+      pendingCount: 2,
+      completedTotal: 5,
+      completedRequested: 3,
+      completedUnrequested: 2,
+      requestedTotal: 4,
+      completionRate: 75,
+    }],
+  };
+}
+
+const snapshotDir = mockSnapshotDir;
+
+beforeAll(() => {
+  rmSync(snapshotDir, { recursive: true, force: true });
+});
+
+afterAll(() => {
+  rmSync(snapshotDir, { recursive: true, force: true });
+});
+
+describe('buildSnapshot', () => {
+  it('counts open, community and unassigned PRs per repo', () => {
+    const prs = [
+      makePR(),
+      makePR({ number: 2, authorType: 'employee', requestedReviewers: { users: ['a'], teams: [] } }),
+      makePR({ number: 3, repo: 'owner/beta', isDraft: true }),
+      makePR({ number: 4, repo: 'owner/beta', requestedReviewers: { users: [], teams: ['core'] } }),
+    ];
+
+    const snapshot = buildSnapshot(makeData(prs, 5), ['owner/beta', 'owner/alpha']);
+
+    expect(snapshot.repos).toEqual(['owner/alpha', 'owner/beta']);
+    expect(snapshot.repoCounts['owner/alpha']).toEqual({ openPrs: 2, communityPrs: 1, prsWithoutReviewers: 1 });
+    expect(snapshot.repoCounts['owner/beta']).toEqual({ openPrs: 2, communityPrs: 2, prsWithoutReviewers: 0 });
+  });
+});
+
+describe('maybeRecordSnapshot / getKpiHistory', () => {
+  const repos = ['owner/alpha', 'owner/beta'];
+
+  it('throttles writes per repo set and serves KPI series from disk', async () => {
+    const t0 = new Date('2024-03-01T10:00:00Z');
+    const t1 = new Date('2024-03-01T10:30:00Z'); // inside the interval — skipped
+    const t2 = new Date('2024-03-02T11:00:00Z');
+
+    expect(await maybeRecordSnapshot(makeData([makePR()], 10), repos, '30d', t0)).toBe(true);
+    expect(await maybeRecordSnapshot(makeData([makePR()], 99), repos, '30d', t1)).toBe(false);
+    expect(await maybeRecordSnapshot(makeData([makePR(), makePR({ number: 2, repo: 'owner/beta' })], 4), repos, '30d', t2)).toBe(true);
+
+    expect(readdirSync(snapshotDir).sort()).toEqual(['2024-03-01.jsonl', '2024-03-02.jsonl']);
+
+    const from = new Date('2024-02-28T00:00:00Z');
+    const to = new Date('2024-03-05T00:00:00Z');
+
+    expect(await getKpiHistory({ kpi: 'medianResponseTimeHours', from, to, repos, window: '30d' })).toEqual([
+      { takenAt: t0.toISOString(), value: 10 },
+      { takenAt: t2.toISOString(), value: 4 },
+    ]);
+
+    // Aggregate KPIs are only reported for the exact repo set
+    expect(await getKpiHistory({ kpi: 'medianResponseTimeHours', from, to, repos: ['owner/alpha'], window: '30d' })).toEqual([]);
+
+    // Per-repo counts work for any subset of a snapshot's repos
+    expect(await getKpiHistory({ kpi: 'openPrs', from, to, repos: ['owner/beta'], window: '30d' })).toEqual([
+      { takenAt: t0.toISOString(), value: 0 },
+      { takenAt: t2.toISOString(), value: 1 },
+    ]);
+
+    expect(await getKpiHistory({ kpi: 'completedTotal', from, to, repos, window: '30d', reviewer: 'reviewer1' })).toEqual([
+      { takenAt: t0.toISOString(), value: 5 },
+      { takenAt: t2.toISOString(), value: 5 },
+    ]);
+  });
+
+  it('keeps a series per stats window and never records custom windows', async () => {
+    const t0 = new Date('2024-04-01T10:00:00Z');
+    const t1 = new Date('2024-04-01T10:05:00Z');
+    const from = new Date('2024-04-01T00:00:00Z');
+    const to = new Date('2024-04-02T00:00:00Z');
+
+    expect(await maybeRecordSnapshot(makeData([makePR()], 10), repos, '30d', t0)).toBe(true);
+    // Throttled per window, so a 7d request right after still gets its own point
+    expect(await maybeRecordSnapshot(makeData([makePR()], 2), repos, '7d', t1)).toBe(true);
+    expect(await maybeRecordSnapshot(makeData([makePR()], 50), repos, 'custom', t1)).toBe(false);
+
+    expect(await getKpiHistory({ kpi: 'medianResponseTimeHours', from, to, repos, window: '30d' })).toEqual([
+      { takenAt: t0.toISOString(), value: 10 },
+    ]);
+    expect(await getKpiHistory({ kpi: 'medianResponseTimeHours', from, to, repos, window: '7d' })).toEqual([
+      { takenAt: t1.toISOString(), value: 2 },
+    ]);
+  });
+
+  it('limits reads to the requested date range', async () => {
+    const snapshots = await readSnapshots(new Date('2024-03-02T00:00:00Z'), new Date('2024-03-03T00:00:00Z'));
+    expect(snapshots.map(s => s.takenAt)).toEqual(['2024-03-02T11:00:00.000Z']);
+  });
+
+  it('treats snapshots without a window as 30d ones', async () => {
+    const legacy = { ...buildSnapshot(makeData([makePR()], 7), repos, '30d', new Date('2024-05-01T10:00:00Z')), window: undefined };
+    await writeSnapshot(legacy);
+    const from = new Date('2024-05-01T00:00:00Z');
+    const to = new Date('2024-05-02T00:00:00Z');
+
+    expect(await getKpiHistory({ kpi: 'medianResponseTimeHours', from, to, repos, window: '30d' })).toEqual([
+      { takenAt: legacy.takenAt, value: 7 },
+    ]);
+    expect(await getKpiHistory({ kpi: 'medianResponseTimeHours', from, to, repos, window: '90d' })).toEqual([]);
+  });
+});
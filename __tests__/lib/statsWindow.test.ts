@@ -0,0 +1,64 @@
+import { clipToWindow, lookbackDays, resolveStatsWindow } from '@/lib/statsWindow';
+import { StatsWindow } from '@/lib/types';
+
+const now = new Date('2024-06-30T12:00:00Z');
+
+describe('resolveStatsWindow', () => {
+  it('defaults to the last 30 days', () => {
+    expect(resolveStatsWindow(null, null, null, now)).toEqual({
+      key: '30d',
+      since: '2024-05-31T12:00:00.000Z',
+      until: '2024-06-30T12:00:00.000Z',
+    });
+  });
+
+  it('resolves presets relative to now', () => {
+    expect(resolveStatsWindow('7d', null, null, now)).toMatchObject({ key: '7d', since: '2024-06-23T12:00:00.000Z' });
+    expect(resolveStatsWindow('90d', null, null, now)).toMatchObject({ key: '90d', since: '2024-04-01T12:00:00.000Z' });
+  });
+
+  it('takes a bare `to` date as the end of that day and clamps it to now', () => {
+    expect(resolveStatsWindow('custom', '2024-06-01', '2024-06-10', now)).toEqual({
+      key: 'custom',
+      since: '2024-06-01T00:00:00.000Z',
+      until: '2024-06-10T23:59:59.999Z',
+    });
+    expect(resolveStatsWindow('custom', '2024-06-01', '2024-07-10', now)).toMatchObject({ until: now.toISOString() });
+  });
+
+  it('rejects unknown windows and bad custom ranges', () => {
+    expect(resolveStatsWindow('14d', null, null, now)).toHaveProperty('error');
+    expect(resolveStatsWindow('constructor', null, null, now)).toHaveProperty('error');
+    expect(resolveStatsWindow('toString', null, null, now)).toHaveProperty('error');
+    expect(resolveStatsWindow('custom', null, null, now)).toHaveProperty('error');
+    expect(resolveStatsWindow('custom', '2024-06-20', '2024-06-10', now)).toHaveProperty('error');
+    expect(resolveStatsWindow('custom', '2022-01-01', null, now)).toHaveProperty('error');
+  });
+});
+
+describe('lookbackDays', () => {
+  it('covers the window back from now in whole days', () => {
+    const window = resolveStatsWindow('custom', '2024-06-01', '2024-06-10', now) as StatsWindow;
+    expect(lookbackDays(window, now)).toBe(30);
+    expect(lookbackDays(resolveStatsWindow('7d', null, null, now) as StatsWindow, now)).toBe(7);
+  });
+});
+
+describe('clipToWindow', () => {
+  it('keeps PRs whose date falls inside the window', () => {
+    const window = resolveStatsWindow('custom', '2024-06-01', '2024-06-10', now) as StatsWindow;
+    const fetched = {
+      since: '2024-05-31T12:00:00.000Z',
+      prs: [
+        { number: 1, mergedAt: '2024-05-31T20:00:00Z' },
+        { number: 2, mergedAt: '2024-06-05T00:00:00Z' },
+        { number: 3, mergedAt: '2024-06-20T00:00:00Z' },
+      ],
+    };
+
+    const clipped = clipToWindow(fetched, window, 'mergedAt');
+
+    expect(clipped.since).toBe(window.since);
+    expect(clipped.prs.map(pr => pr.number)).toEqual([2]);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    access: { internalTokens: ['first-secret', 'second-secret'] },
+  },
+}));
+
+import { NextRequest } from 'next/server';
+import { ACCESS_COOKIE, getViewer, isValidAccessToken } from '@/lib/viewer';
+
+describe('isValidAccessToken', () => {
+  it('accepts any configured token and nothing else', () => {
+    expect(isValidAccessToken('second-secret')).toBe(true);
+    expect(isValidAccessToken('second')).toBe(false);
+    expect(isValidAccessToken('')).toBe(false);
+    expect(isValidAccessToken(null)).toBe(false);
+  });
+});
+
+describe('getViewer', () => {
+  const request = (headers: Record<string, string> = {}) => new NextRequest('http://localhost/api/dashboard', { headers });
+
+  it('treats requests without a valid token as public', () => {
+    expect(getViewer(request())).toEqual({ internal: false });
+    expect(getViewer(request({ Authorization: 'Bearer wrong' }))).toEqual({ internal: false });
+  });
+
+  it('unlocks the internal view from a bearer token or the access cookie', () => {
+    expect(getViewer(request({ Authorization: 'Bearer first-secret' }))).toEqual({ internal: true });
+    expect(getViewer(request({ Cookie: `${ACCESS_COOKIE}=second-secret` }))).toEqual({ internal: true });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * @jest-environment node
+ */
+
+import { createHmac } from 'crypto';
+
+jest.mock('@/lib/config', () => ({
+  config: {
+    cache: { backend: 'memory', ttlSeconds: 60, prDataTtlSeconds: 60 },
+    sync: { mode: 'full', fullResyncMinutes: 60 },
+  },
+}));
+
+jest.mock('@/lib/github', () => ({
+  getOpenPRsGraphQL: jest.fn(),
+  getPRsUpdatedSince: jest.fn(),
+  getMergedPRsWithTimeline: jest.fn(),
+  getClosedPRsWithTimeline: jest.fn(),
+}));
+
+import { cache } from '@/lib/cache';
+import { getOpenPRsGraphQL } from '@/lib/github';
+import { getRepoOpenPRs } from '@/lib/prStore';
+import { applyWebhookEvent, verifyWebhookSignature } from '@/lib/webhooks';
+
+const mockGetOpenPRs = getOpenPRsGraphQL as jest.MockedFunction<typeof getOpenPRsGraphQL>;
+
+const repository = { name: 'repo', owner: { login: 'owner' } };
+
+function rawPR(number: number, overrides: Record<string, unknown> = {}) {
+  return {
+    number,
+    title: `PR ${number}`,
+    state: 'OPEN',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    author: { login: 'contributor' },
+    labels: { nodes: [] },
+    reviewRequests: { nodes: [{ requestedReviewer: { __typename: 'User', login: 'reviewer1' } }] },
+    reviews: { nodes: [] },
+    timelineItems: { nodes: [] },
+    ...overrides,
+  };
+}
+
+function restPR(number: number, overrides: Record<string, unknown> = {}) {
+  return {
+    number,
+    title: `PR ${number}`,
+    html_url: `https://github.com/owner/repo/pull/${number}`,
+    state: 'open',
+    draft: false,
+    created_at: '2024-01-02T00:00:00Z',
+    updated_at: '2024-01-02T00:00:00Z',
+    author_association: 'CONTRIBUTOR',
+    user: { login: 'newcomer' },
+    labels: [{ name: 'bug' }],
+    requested_reviewers: [],
+    requested_teams: [{ slug: 'frontend' }],
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  await cache.clear();
+  mockGetOpenPRs.mockResolvedValue([rawPR(1), rawPR(2)]);
+  await getRepoOpenPRs('owner', 'repo');
+});
+
+describe('verifyWebhookSignature', () => {
+  const body = JSON.stringify({ hello: 'world' });
+  const sign = (secret: string) => `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+  it('accepts a signature computed with the shared secret', () => {
+    expect(verifyWebhookSignature(body, sign('s3cret'), 's3cret')).toBe(true);
+  });
+
+  it('rejects a signature computed with a different secret', () => {
+    expect(verifyWebhookSignature(body, sign('other'), 's3cret')).toBe(false);
+  });
+
+  it('rejects missing or malformed headers', () => {
+    expect(verifyWebhookSignature(body, null, 's3cret')).toBe(false);
+    expect(verifyWebhookSignature(body, 'sha1=abc', 's3cret')).toBe(false);
+  });
+});
+
+describe('applyWebhookEvent', () => {
+  it('adds newly opened PRs and marks derived dashboard entries stale', async () => {
+    const ttl = { ttlSeconds: 60, staleTtlSeconds: 600 };
+    await cache.withStaleCache('dashboard:{"repos":[]}', ttl, async () => 'before');
+
+    const result = await applyWebhookEvent('pull_request', { action: 'opened', repository, pull_request: restPR(3) });
+
+    expect(result.applied).toBe(true);
+    // Kept as the fallback, but refreshed on the next request
+    const refetch = jest.fn(async () => 'after');
+    expect(await cache.withStaleCache('dashboard:{"repos":[]}', ttl, refetch)).toMatchObject({ data: 'before', isStale: true });
+    expect(refetch).toHaveBeenCalledTimes(1);
+
+    const prs = await getRepoOpenPRs('owner', 'repo');
+    expect(prs.map(pr => pr.number)).toEqual([3, 1, 2]);
+    expect(prs[0].labels.nodes).toEqual([{ name: 'bug' }]);
+    expect(prs[0].reviewRequests.nodes).toEqual([{ requestedReviewer: { __typename: 'Team', slug: 'frontend' } }]);
+    expect(mockGetOpenPRs).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches instead of inserting updated PRs the cache does not hold', async () => {
+    const result = await applyWebhookEvent('pull_request', { action: 'labeled', repository, pull_request: restPR(7) });
+
+    expect(result.applied).toBe(true);
+    mockGetOpenPRs.mockResolvedValue([rawPR(7), rawPR(1), rawPR(2)]);
+    const prs = await getRepoOpenPRs('owner', 'repo');
+    expect(prs.map(pr => pr.number)).toEqual([7, 1, 2]);
+    expect(mockGetOpenPRs).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops closed PRs from the open set', async () => {
+    await applyWebhookEvent('pull_request', { action: 'closed', repository, pull_request: restPR(1, { state: 'closed' }) });
+
+    const prs = await getRepoOpenPRs('owner', 'repo');
+    expect(prs.map(pr => pr.number)).toEqual([2]);
+  });
+
+  it('keeps existing reviews when a PR is edited', async () => {
+    await applyWebhookEvent('pull_request_review', {
+      action: 'submitted',
+      repository,
+      pull_request: { number: 2 },
+      review: { user: { login: 'reviewer1' }, state: 'approved', submitted_at: '2024-01-03T00:00:00Z' },
+    });
+    await applyWebhookEvent('pull_request', { action: 'edited', repository, pull_request: restPR(2, { title: 'Renamed' }) });
+
+    const pr = (await getRepoOpenPRs('owner', 'repo')).find(p => p.number === 2);
+    expect(pr.title).toBe('Renamed');
+    expect(pr.reviews.nodes).toEqual([
+      { author: { login: 'reviewer1' }, state: 'APPROVED', submittedAt: '2024-01-03T00:00:00Z' },
+    ]);
+  });
+
+  it('clears CI status and mergeability when new commits are pushed', async () => {
+    mockGetOpenPRs.mockResolvedValue([
+      rawPR(1, { mergeable: 'MERGEABLE', mergeStateStatus: 'CLEAN', commits: { nodes: [{ commit: { statusCheckRollup: { state: 'SUCCESS' } } }] } }),
+    ]);
+    await cache.clear();
+    await getRepoOpenPRs('owner', 'repo');
+
+    await applyWebhookEvent('pull_request', { action: 'labeled', repository, pull_request: restPR(1, { mergeable: null }) });
+    let pr = (await getRepoOpenPRs('owner', 'repo'))[0];
+    expect(pr).toMatchObject({ mergeable: 'MERGEABLE', mergeStateStatus: 'CLEAN' });
+    expect(pr.commits.nodes).toHaveLength(1);
+
+    await applyWebhookEvent('pull_request', { action: 'synchronize', repository, pull_request: restPR(1, { mergeable: null }) });
+    pr = (await getRepoOpenPRs('owner', 'repo'))[0];
+    expect(pr).toMatchObject({ mergeable: 'UNKNOWN', mergeStateStatus: 'UNKNOWN', commits: { nodes: [] } });
+
+    await applyWebhookEvent('pull_request', { action: 'edited', repository, pull_request: restPR(1, { mergeable: false, mergeable_state: 'dirty' }) });
+    pr = (await getRepoOpenPRs('owner', 'repo'))[0];
+    expect(pr).toMatchObject({ mergeable: 'CONFLICTING', mergeStateStatus: 'DIRTY' });
+  });
+
+  it('records submitted reviews once and clears the reviewer\'s pending request', async () => {
+    const payload = {
+      action: 'submitted',
+      repository,
+      pull_request: { number: 1 },
+      review: { user: { login: 'reviewer1' }, state: 'changes_requested', submitted_at: '2024-01-03T00:00:00Z' },
+    };
+
+    expect((await applyWebhookEvent('pull_request_review', payload)).applied).toBe(true);
+    expect((await applyWebhookEvent('pull_request_review', payload)).applied).toBe(false);
+
+    const pr = (await getRepoOpenPRs('owner', 'repo')).find(p => p.number === 1);
+    expect(pr.reviews.nodes).toHaveLength(1);
+    expect(pr.reviews.nodes[0].state).toBe('CHANGES_REQUESTED');
+    expect(pr.reviewRequests.nodes).toEqual([]);
+  });
+
+  it('records PR conversation and inline review comments', async () => {
+    const comment = { user: { login: 'maintainer1' }, created_at: '2024-01-03T00:00:00Z' };
+
+    await applyWebhookEvent('issue_comment', { action: 'created', repository, issue: { number: 1, pull_request: {} }, comment });
+    await applyWebhookEvent('issue_comment', { action: 'created', repository, issue: { number: 1, pull_request: {} }, comment });
+    await applyWebhookEvent('pull_request_review_comment', { action: 'created', repository, pull_request: { number: 2 }, comment });
+
+    const prs = await getRepoOpenPRs('owner', 'repo');
+    const [pr1, pr2] = [1, 2].map(number => prs.find(pr => pr.number === number));
+    expect(pr1.comments.nodes).toEqual([{ author: { login: 'maintainer1' }, createdAt: '2024-01-03T00:00:00Z' }]);
+    expect(pr2.reviewThreads.nodes).toEqual([
+      { comments: { nodes: [{ author: { login: 'maintainer1' }, createdAt: '2024-01-03T00:00:00Z' }] } },
+    ]);
+  });
+
+  it('ignores issue comments on plain issues', async () => {
+    const result = await applyWebhookEvent('issue_comment', {
+      action: 'created',
+      repository,
+      issue: { number: 1 },
+      comment: { user: { login: 'someone' }, created_at: '2024-01-03T00:00:00Z' },
+    });
+
+    expect(result.applied).toBe(false);
+  });
+
+  it('is a no-op for repos that are not cached', async () => {
+    const result = await applyWebhookEvent('pull_request', {
+      action: 'opened',
+      repository: { name: 'other', owner: { login: 'owner' } },
+      pull_request: restPR(9),
+    });
+
+    expect(result.applied).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { ACCESS_COOKIE, isValidAccessToken } from '@/lib/viewer';
+
+export const dynamic = 'force-dynamic';
+
+const COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+// Open /api/access?token=... once to unlock the internal view in this browser
+export async function GET(request: NextRequest) {
+  if (config.access.internalTokens.length === 0) {
+    return NextResponse.json(
+      { error: 'access_not_configured', message: 'INTERNAL_ACCESS_TOKENS is not set' },
+      { status: 503 }
+    );
+  }
+
+  const token = request.nextUrl.searchParams.get('token');
+  if (!isValidAccessToken(token)) {
+    return NextResponse.json({ error: 'invalid_token' }, { status: 401 });
+  }
+
+  const response = NextResponse.redirect(new URL('/', request.url));
+  response.cookies.set(ACCESS_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: COOKIE_MAX_AGE_SECONDS,
+  });
+  return response;
+}
+
+// Back to the public view
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(ACCESS_COOKIE);
+  return response;
+}
@@ -1,67 +1,74 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { config } from '@/lib/config';
 import { cache } from '@/lib/cache';
-import { buildEmployeesSet, buildRepoAuthorRoleSets } from '@/lib/employees';
-import { RateLimitError, getOpenPRsGraphQL, getRecentlyMergedPRsWithReviews, getAllPRReviewStats, ReviewStatsData, CommunityPRReviewData, OrgMemberPRReviewData, BotPRReviewData } from '@/lib/github';
-import { transformPR, computeDashboardData, computeCommunityReviewerStats, computeOrgMemberReviewerStats, computeBotReviewerStats } from '@/lib/compute';
-import { PR } from '@/lib/types';
-import { DEFAULT_REPOS } from '@/lib/defaults';
+import { buildEmployeesSet, buildRepoAuthorRoleSets, expandRequestedTeams } from '@/lib/employees';
+import { RateLimitError, deriveReviewStats, deriveAllPRReviewStats, ReviewStatsData, CommunityPRReviewData, OrgMemberPRReviewData, BotPRReviewData } from '@/lib/github';
+import { getRepoOpenPRs, getRepoMergedPRs, getRepoClosedPRs } from '@/lib/prStore';
+import { transformPR, transformClosedPR, teamReviewFilterOptions, computeDashboardData, computeCommunityReviewerStats, computeOrgMemberReviewerStats, computeBotReviewerStats } from '@/lib/compute';
+import { applyFilters, parseFilterState } from '@/lib/filters';
+import { PR, ClosedPR } from '@/lib/types';
+import { discoverRepositoryIds, filterVisibleRepoIds } from '@/lib/repositories';
+import { getViewer, Viewer } from '@/lib/viewer';
+import { maybeRecordSnapshot } from '@/lib/snapshots';
+import { parseRepoId, formatRepoId, RepoRef } from '@/lib/githubHosts';
+import { resolveStatsWindow, lookbackDays, clipToWindow } from '@/lib/statsWindow';
+import { addSuggestedReviewers } from '@/lib/codeowners';
 
 export const dynamic = 'force-dynamic';
 
-function resolveRepos(targetRepos: string[]): string[] {
-  return targetRepos.length > 0 ? targetRepos : DEFAULT_REPOS;
+// Requested repos the viewer may not see are dropped rather than rejected, like unparseable ids
+async function resolveRepos(targetRepos: string[], viewer: Viewer): Promise<string[]> {
+  return targetRepos.length > 0 ? filterVisibleRepoIds(targetRepos, viewer) : discoverRepositoryIds(viewer);
 }
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const debug = searchParams.get('debug') === 'true';
-    const reposParam = searchParams.get('repos');
-    const labelsParam = searchParams.get('labels');
-    const ageParam = searchParams.get('age');
-    const statusParam = searchParams.get('status');
-    const noReviewersParam = searchParams.get('noReviewers');
-    const limitParam = searchParams.get('limit');
-    const draftStatusParam = searchParams.get('draftStatus');
-    const authorTypeParam = searchParams.get('authorType');
-    const reviewerParam = searchParams.get('reviewer');
-
-    // Parse filters
-    const targetRepos = reposParam
-      ? reposParam.split(',').map(r => r.trim())
-      : config.repos.include.length > 0
-        ? config.repos.include
-        : []; // Will auto-discover if empty
+    const viewer = getViewer(request);
+    const filters = parseFilterState(searchParams);
+    const windowParam = searchParams.get('window');
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+
+    const now = new Date();
+    const statsWindow = resolveStatsWindow(windowParam, fromParam, toParam, now);
+    if ('error' in statsWindow) {
+      return NextResponse.json({ error: 'invalid_window', message: statsWindow.error }, { status: 400 });
+    }
+    const windowDays = lookbackDays(statsWindow, now);
 
-    const labelFilters = labelsParam
-      ? labelsParam.split(',').map(l => l.trim().toLowerCase())
-      : [];
+    // Without `repos`, discovery decides, applying REPOS_INCLUDE globs and every other repo setting
+    const targetRepos = filters.repositories;
 
     const cacheBustParam = searchParams.get('cacheBust');
 
-    // Create cache key based on filters
+    // Keyed only by what decides which data is fetched; PR filters run over the cached entry,
+    // so changing them never refetches. Internal and public viewers see different repo sets.
+    // A custom window is keyed by its raw params: the resolved `until` is clamped to the current
+    // millisecond, so every request (and every auto-refresh) would otherwise get a key of its own.
     const cacheKey = `dashboard:${JSON.stringify({
       orgs: config.orgs,
+      viewer: viewer.internal ? 'internal' : 'public',
       repos: targetRepos,
-      labels: labelFilters,
-      age: ageParam,
-      status: statusParam,
-      noReviewers: noReviewersParam,
-      limit: limitParam,
-      draftStatus: draftStatusParam,
-      authorType: authorTypeParam,
-      reviewer: reviewerParam,
+      window: statsWindow.key,
+      ...(statsWindow.key === 'custom' && { from: fromParam, to: toParam }),
       ...(cacheBustParam && { cacheBust: cacheBustParam }),
     })}`;
 
-    const result = await cache.withCache(cacheKey, config.cache.ttlSeconds, async () => {
-      const reposToFetch = resolveRepos(targetRepos);
+    const ttl = { ttlSeconds: config.cache.ttlSeconds, staleTtlSeconds: config.cache.staleTtlSeconds };
+    const { data: result, lastUpdated, isStale, rateLimitResetAt } = await cache.withStaleCache(cacheKey, ttl, async () => {
+      // Accepts `owner/repo` or host-qualified `host/owner/repo`; ids for unconfigured hosts are dropped
+      const repoRefs = (await resolveRepos(targetRepos, viewer))
+        .map(parseRepoId)
+        .filter((ref): ref is RepoRef => ref !== null);
+      const reposToFetch = repoRefs.map(({ owner, repo }) => formatRepoId(owner, repo));
       const employeesSet = await buildEmployeesSet();
 
-      // Phase 2: for every repo, run its three fetches in parallel; run all repos in parallel.
+      // Phase 2: for every repo, run its fetches in parallel; run all repos in parallel.
       type RepoData = {
         prs: PR[];
+        closedPrs: ClosedPR[];
         reviewStatsData: ReviewStatsData;
         communityReviews: CommunityPRReviewData[];
         orgMemberReviews: OrgMemberPRReviewData[];
@@ -69,26 +76,35 @@ export async function GET(request: NextRequest) {
       };
 
       const repoResults = await Promise.all(
-        reposToFetch
-          .map(r => r.trim().split('/'))
-          .filter(([owner, repo]) => owner && repo)
-          .map(([owner, repo]) =>
+        repoRefs
+          .map(({ owner, repo }) =>
             Promise.all([
-              getOpenPRsGraphQL(owner, repo),
-              getRecentlyMergedPRsWithReviews(owner, repo, 30),
-              getAllPRReviewStats(owner, repo, 30, employeesSet),
+              getRepoOpenPRs(owner, repo),
+              getRepoMergedPRs(owner, repo, windowDays),
+              getRepoClosedPRs(owner, repo, windowDays),
               buildRepoAuthorRoleSets(owner, repo),
             ])
-              .then(([rawPrs, reviewStatsData, allReviewStats, repoAuthorRoleSets]): RepoData => ({
-                prs: rawPrs.map(rawPr => {
+              .then(async ([rawPrs, fetchedMergedPRs, fetchedClosedPRs, repoAuthorRoleSets]): Promise<RepoData> => {
+                const mergedPRs = clipToWindow(fetchedMergedPRs, statsWindow, 'mergedAt');
+                const closedPRs = clipToWindow(fetchedClosedPRs, statsWindow, 'closedAt');
+                const allReviewStats = deriveAllPRReviewStats(mergedPRs, employeesSet);
+                const prs = rawPrs.map(rawPr => {
                   rawPr.repository = { owner: { login: owner }, name: repo };
                   return transformPR(rawPr, employeesSet, repoAuthorRoleSets);
-                }),
-                reviewStatsData,
-                communityReviews: allReviewStats.communityReviews,
-                orgMemberReviews: allReviewStats.orgMemberReviews,
-                botReviews:       allReviewStats.botReviews,
-              }))
+                });
+                await expandRequestedTeams(owner, prs);
+                await addSuggestedReviewers(owner, repo, prs);
+                return {
+                  prs,
+                  closedPrs: closedPRs.prs.map(rawPr =>
+                    transformClosedPR({ ...rawPr, repository: { owner: { login: owner }, name: repo } }, employeesSet, repoAuthorRoleSets)
+                  ),
+                  reviewStatsData:  deriveReviewStats(mergedPRs),
+                  communityReviews: allReviewStats.communityReviews,
+                  orgMemberReviews: allReviewStats.orgMemberReviews,
+                  botReviews:       allReviewStats.botReviews,
+                };
+              })
               .catch(err => {
                 // Rate limit errors propagate — all other per-repo errors are isolated.
                 if (err instanceof RateLimitError) throw err;
@@ -100,7 +116,8 @@ export async function GET(request: NextRequest) {
 
       // Flatten results.
       const allPrs: PR[] = [];
-      const allReviewStatsData: ReviewStatsData = { completedReviews: [], reviewRequests: [] };
+      const allClosedPrs: ClosedPR[] = [];
+      const allReviewStatsData: Required<ReviewStatsData> = { completedReviews: [], reviewRequests: [], firstReviews: [] };
       const allCommunityReviews: CommunityPRReviewData[] = [];
       const allOrgMemberReviews: OrgMemberPRReviewData[] = [];
       const allBotReviews: BotPRReviewData[] = [];
@@ -108,106 +125,17 @@ export async function GET(request: NextRequest) {
       for (const rd of repoResults) {
         if (!rd) continue;
         allPrs.push(...rd.prs);
+        allClosedPrs.push(...rd.closedPrs);
         allReviewStatsData.completedReviews.push(...rd.reviewStatsData.completedReviews);
         allReviewStatsData.reviewRequests.push(...rd.reviewStatsData.reviewRequests);
+        allReviewStatsData.firstReviews.push(...(rd.reviewStatsData.firstReviews || []));
         allCommunityReviews.push(...rd.communityReviews);
         allOrgMemberReviews.push(...rd.orgMemberReviews);
         allBotReviews.push(...rd.botReviews);
       }
 
-      // Apply filters
-      let filteredPrs = allPrs;
-
-      // Don't filter to community PRs by default - show all PRs
-      // Community PR filtering is handled in the compute functions
-
-      // Apply label filters if provided
-      if (labelFilters.length > 0) {
-        filteredPrs = filteredPrs.filter(pr =>
-          pr.labels.some(label => labelFilters.includes(label.toLowerCase()))
-        );
-      }
-
-      // Apply author type filter if provided
-      if (authorTypeParam && authorTypeParam !== 'all') {
-        filteredPrs = filteredPrs.filter(pr => pr.authorType === authorTypeParam);
-      }
-
-      // Apply age filter if provided
-      if (ageParam && ageParam !== 'all') {
-        const ageRanges = {
-          '0-24': [0, 24],           // 0-24 hours
-          '2-days': [0, 48],         // Last 2 days (0-48 hours)
-          '3-days': [0, 72],         // Last 3 days (0-72 hours)
-          '7-days': [0, 168],        // Last 7 days (0-168 hours)
-          '30-days': [0, 720],       // Last 30 days (0-720 hours)
-        };
-
-        const range = ageRanges[ageParam as keyof typeof ageRanges];
-        if (range) {
-          filteredPrs = filteredPrs.filter(pr =>
-            pr.ageHours >= range[0] && pr.ageHours < range[1]
-          );
-        }
-      }
-
-      // Apply status filter if provided
-      if (statusParam && statusParam !== 'all') {
-        filteredPrs = filteredPrs.filter(pr => {
-          switch (statusParam) {
-            case 'needs-review':
-              return pr.needsFirstResponse || (!pr.firstReviewAt && !pr.isDraft);
-            case 'changes-requested':
-              return pr.reviews.some(review => review.state === 'CHANGES_REQUESTED');
-            case 'approved':
-              return pr.reviews.some(review => review.state === 'APPROVED');
-            default:
-              return true;
-          }
-        });
-      }
-
-      // Apply no reviewers filter if provided
-      if (noReviewersParam === 'true') {
-        filteredPrs = filteredPrs.filter(pr => {
-          // Check if PR has no requested reviewers (both users and teams)
-          const hasRequestedReviewers = pr.requestedReviewers.users.length > 0 || pr.requestedReviewers.teams.length > 0;
-          return !hasRequestedReviewers;
-        });
-      }
-
-      // Apply reviewer filter if provided
-      if (reviewerParam && reviewerParam !== 'all') {
-        filteredPrs = filteredPrs.filter(pr => {
-          // Check if the specified reviewer is in the requested reviewers list
-          return pr.requestedReviewers.users.includes(reviewerParam);
-        });
-      }
-
-      // Apply draft status filter if provided
-      if (draftStatusParam && draftStatusParam !== 'all') {
-        filteredPrs = filteredPrs.filter(pr => {
-          switch (draftStatusParam) {
-            case 'drafts':
-              return pr.isDraft;
-            case 'final':
-              return !pr.isDraft;
-            default:
-              return true;
-          }
-        });
-      }
-
-      // Apply limit filter if provided (should be last to limit final results)
-      if (limitParam && limitParam !== 'all') {
-        const limit = parseInt(limitParam, 10);
-        if (!isNaN(limit) && limit > 0) {
-          filteredPrs = filteredPrs.slice(0, limit);
-        }
-      }
-
       // Compute dashboard data based on all PRs (not just filtered ones)
-      const dashboardData = computeDashboardData(allPrs, employeesSet, allReviewStatsData);
+      const dashboardData = computeDashboardData(allPrs, employeesSet, allReviewStatsData, allClosedPrs);
 
       // Compute community reviewer stats and merge into existing reviewer data
       const communityReviewerStats = computeCommunityReviewerStats(allCommunityReviews);
@@ -277,23 +205,36 @@ export async function GET(request: NextRequest) {
         }
       }
 
-      // But return filtered PRs for the table
+      // Persist a point for historical trends (throttled per window and repo set)
+      await maybeRecordSnapshot(dashboardData, reposToFetch, statsWindow.key);
+
       return {
         ...dashboardData,
-        prs: filteredPrs,
+        prs: allPrs,
+        window: statsWindow,
+        viewer: viewer.internal ? 'internal' : 'public',
         totalPrs: allPrs.length,
         employeeCount: employeesSet.size,
       };
-    });
-
-    const response = result;
+    }, { waitUntil: after });
+
+    const filterOptions = teamReviewFilterOptions();
+    const response = {
+      ...result,
+      prs: applyFilters(result.prs, filters, filterOptions),
+      // Lets the page re-filter the PRs itself, the same way
+      filterOptions,
+      lastUpdated,
+      isStale,
+      ...(rateLimitResetAt && { rateLimitResetAt }),
+    };
 
     if (debug) {
       (response as any).debug = {
         totalPrs: result.totalPrs,
         employeeCount: result.employeeCount,
         cacheKey,
-        filters: { repos: targetRepos, labels: labelFilters, age: ageParam },
+        filters: { ...filters, repositories: targetRepos },
       };
     }
 
@@ -1,14 +1,23 @@
 import { NextRequest } from 'next/server';
+import { cache } from '@/lib/cache';
 import { config } from '@/lib/config';
+import { getTokenPoolStatus, isGitHubAppConfigured } from '@/lib/githubAuth';
+import { getViewer } from '@/lib/viewer';
+
+export async function GET(request: NextRequest) {
+  // Token budgets and the repo settings (which can name private repos) are for internal viewers only
+  if (!getViewer(request).internal) {
+    return Response.json({ error: 'forbidden' }, { status: 403 });
+  }
 
-export async function GET(_request: NextRequest) {
   try {
     const hasToken = !!process.env.GITHUB_TOKEN;
-    const tokenLength = process.env.GITHUB_TOKEN?.length || 0;
-    
+
     return Response.json({
       hasToken,
-      tokenLength,
+      authMode: isGitHubAppConfigured() ? 'github-app' : 'token',
+      tokenPool: getTokenPoolStatus(),
+      cache: cache.getStats(),
       config: {
         orgs: config.orgs,
         repos: config.repos,
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { discoverRepositoryIds, filterVisibleRepoIds } from '@/lib/repositories';
+import { getViewer } from '@/lib/viewer';
+import { getKpiHistory, isHistoryKpi, HISTORY_KPIS, HISTORY_REPO_KPIS, HISTORY_REVIEWER_KPIS, SnapshotWindow } from '@/lib/snapshots';
+import { DEFAULT_STATS_WINDOW, STATS_WINDOW_PRESETS } from '@/lib/statsWindow';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const kpi = searchParams.get('kpi');
+    const reposParam = searchParams.get('repos');
+    const reviewer = searchParams.get('reviewer') || undefined;
+
+    if (!kpi || !isHistoryKpi(kpi, reviewer)) {
+      return NextResponse.json(
+        {
+          error: 'invalid_kpi',
+          message: reviewer
+            ? `kpi must be one of: ${HISTORY_REVIEWER_KPIS.join(', ')}`
+            : `kpi must be one of: ${[...HISTORY_KPIS, ...HISTORY_REPO_KPIS].join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Custom windows aren't recorded, so only the presets have a series
+    const windowKey = searchParams.get('window') || DEFAULT_STATS_WINDOW;
+    if (!Object.prototype.hasOwnProperty.call(STATS_WINDOW_PRESETS, windowKey)) {
+      return NextResponse.json(
+        { error: 'invalid_window', message: `window must be one of: ${Object.keys(STATS_WINDOW_PRESETS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const to = parseDate(searchParams.get('to')) ?? new Date();
+    const from = parseDate(searchParams.get('from'))
+      ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    if (from > to) {
+      return NextResponse.json(
+        { error: 'invalid_range', message: '`from` must be before `to`' },
+        { status: 400 }
+      );
+    }
+
+    const viewer = getViewer(request);
+    const repos = reposParam
+      ? await filterVisibleRepoIds(reposParam.split(',').map(r => r.trim()).filter(Boolean), viewer)
+      : await discoverRepositoryIds(viewer);
+
+    const points = await getKpiHistory({ kpi, from, to, repos, window: windowKey as SnapshotWindow, reviewer });
+
+    return NextResponse.json({
+      kpi,
+      window: windowKey,
+      reviewer,
+      repos,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      points,
+    });
+  } catch (error) {
+    console.error('History API error:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch history',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
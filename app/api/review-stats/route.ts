@@ -4,16 +4,19 @@ export const dynamic = 'force-dynamic';
 import { config, validateConfig } from '@/lib/config';
 import { cache } from '@/lib/cache';
 import { buildEmployeesSet, buildRepoAuthorRoleSets } from '@/lib/employees';
-import { getOpenPRsGraphQL } from '@/lib/github';
+import { getRepoOpenPRs } from '@/lib/prStore';
 import { transformPR, computeReviewStats } from '@/lib/compute';
 import { PR } from '@/lib/types';
-import { DEFAULT_REPOS } from '@/lib/defaults';
+import { discoverRepositoryIds } from '@/lib/repositories';
+import { parseRepoId } from '@/lib/githubHosts';
+import { getViewer } from '@/lib/viewer';
 
-export async function GET(_request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
     validateConfig();
     
-    const cacheKey = `review-stats:${config.orgs.join(',')}`;
+    const viewer = getViewer(request);
+    const cacheKey = `review-stats:${config.orgs.join(',')}:${viewer.internal ? 'internal' : 'public'}`;
     
     const result = await cache.withCache(cacheKey, config.cache.ttlSeconds, async () => {
       // Build employees set
@@ -22,15 +25,16 @@ export async function GET(_request: NextRequest) {
       // Get all PRs from configured repositories
       const allPrs: PR[] = [];
       
-      const reposToFetch = config.repos.include.length > 0 ? config.repos.include : DEFAULT_REPOS;
+      const reposToFetch = await discoverRepositoryIds(viewer);
       
       for (const repoPath of reposToFetch) {
-        const [owner, repo] = repoPath.split('/');
-        if (!owner || !repo) continue;
+        const ref = parseRepoId(repoPath);
+        if (!ref) continue;
+        const { owner, repo } = ref;
         
         try {
           const [rawPrs, repoAuthorRoleSets] = await Promise.all([
-            getOpenPRsGraphQL(owner, repo),
+            getRepoOpenPRs(owner, repo),
             buildRepoAuthorRoleSets(owner, repo),
           ]);
           const transformedPrs = rawPrs.map(rawPr => {
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { applyWebhookEvent, isSupportedWebhookEvent, verifyWebhookSignature, WebhookPayload } from '@/lib/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  if (!config.github.webhookSecret) {
+    return NextResponse.json(
+      { error: 'webhook_not_configured', message: 'GITHUB_WEBHOOK_SECRET is not set' },
+      { status: 503 }
+    );
+  }
+
+  const rawBody = await request.text();
+  const signature = request.headers.get('x-hub-signature-256');
+
+  if (!verifyWebhookSignature(rawBody, signature, config.github.webhookSecret)) {
+    return NextResponse.json({ error: 'invalid_signature' }, { status: 401 });
+  }
+
+  const event = request.headers.get('x-github-event') || '';
+  const deliveryId = request.headers.get('x-github-delivery');
+
+  if (event === 'ping') {
+    return NextResponse.json({ ok: true, event });
+  }
+
+  if (!isSupportedWebhookEvent(event)) {
+    return NextResponse.json({ ok: true, event, ignored: true }, { status: 202 });
+  }
+
+  let payload: WebhookPayload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'invalid_payload' }, { status: 400 });
+  }
+
+  try {
+    const result = await applyWebhookEvent(event, payload);
+    return NextResponse.json({ ok: true, deliveryId, ...result });
+  } catch (error) {
+    console.error(`Failed to apply ${event} webhook ${deliveryId}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to apply webhook',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -8,7 +8,44 @@ import DashboardSkeleton from '@/components/DashboardSkeleton'
 import WhatsNew from '@/components/WhatsNew'
 import { Tooltip } from '@/components/Tooltip'
 import { DashboardData, FilterState } from '@/lib/types'
-import { DEFAULT_REPOS } from '@/lib/defaults'
+import { DEFAULT_FILTERS, DEFAULT_FILTER_OPTIONS, applyFilters, reviewerFilterValues, serializeFilterState } from '@/lib/filters'
+import { DEFAULT_STATS_WINDOW, STATS_WINDOW_LABELS } from '@/lib/statsWindow'
+
+// Stat columns after Reviewer; team rows leave all but the last (Pending) blank
+const REVIEWER_STAT_COLUMNS: Array<{ label: string; tooltip: string; detail?: string }> = [
+  {
+    label: 'Community PRs',
+    tooltip: 'Number of unique community PRs reviewed (external contributors without write access). Median shows time from ready-for-review to first review. For draft PRs, this is when marked ready; otherwise, when created. Only counts merged PRs.',
+    detail: '(count / median)',
+  },
+  {
+    label: 'Org Member PRs',
+    tooltip: 'Number of unique org member PRs reviewed (employees and collaborators with write access). Median shows time from ready-for-review to first review. For draft PRs, this is when marked ready; otherwise, when created. Only counts merged PRs.',
+    detail: '(count / median)',
+  },
+  {
+    label: 'Bot PRs',
+    tooltip: 'Number of unique bot PRs reviewed (dependabot, renovate, etc.). Median shows time from ready-for-review to first review. For draft PRs, this is when marked ready; otherwise, when created. Only counts merged PRs.',
+    detail: '(count / median)',
+  },
+  {
+    label: 'Completed Reviews',
+    tooltip: "Total review actions submitted on merged PRs. Format: total / requested / unrequested. Includes multiple reviews on the same PR. 'Requested' means the reviewer was explicitly asked. 'Unrequested' means the reviewer acted voluntarily.",
+    detail: '(total / requested / unrequested)',
+  },
+  {
+    label: 'Requested',
+    tooltip: 'Total review requests received in the last 30 days. Counts how many times this reviewer was explicitly asked to review a PR.',
+  },
+  {
+    label: 'Completion %',
+    tooltip: 'Percentage of review requests that were completed. Calculated as: (Completed Requested / Requested) × 100. Shows how often reviews are completed when explicitly requested.',
+  },
+  {
+    label: 'Pending',
+    tooltip: "Number of open PRs currently awaiting review from this person. These are active review requests that haven't been completed yet.",
+  },
+]
 
 export default function Dashboard() {
   const [data, setData] = useState<DashboardData | null>(null)
@@ -17,66 +54,29 @@ export default function Dashboard() {
   const [darkMode, setDarkMode] = useState(false)
   const [showAllReviewers, setShowAllReviewers] = useState(false)
   const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null)
-  const [allReviewers, setAllReviewers] = useState<string[]>([])
-
-  const [filters, setFilters] = useState<FilterState>({
-    repositories: DEFAULT_REPOS,
-    labels: [],
-    ageRange: 'all', // Default to All Time - no filtering
-    status: 'all',
-    noReviewers: false,
-    limit: 'all',
-    draftStatus: 'all',
-    authorType: 'all',
-    reviewer: 'all'
-  })
-  const [appliedFilters, setAppliedFilters] = useState<FilterState>({
-    repositories: DEFAULT_REPOS,
-    labels: [],
-    ageRange: 'all', // Default to All Time - no filtering
-    status: 'all',
-    noReviewers: false,
-    limit: 'all',
-    draftStatus: 'all',
-    authorType: 'all',
-    reviewer: 'all'
-  })
-
-  const fetchData = useCallback(async (filtersToApply?: FilterState, { cacheBust = false } = {}) => {
-    const targetFilters = filtersToApply || appliedFilters
+
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS)
+  const [appliedFilters, setAppliedFilters] = useState<FilterState>(DEFAULT_FILTERS)
+
+  // Only the repositories and stats window change what the API returns; every other filter runs over
+  // the fetched PRs below, so changing one re-filters instantly instead of refetching
+  const dataQuery = serializeFilterState({
+    ...DEFAULT_FILTERS,
+    repositories: appliedFilters.repositories,
+    ...(appliedFilters.window !== DEFAULT_STATS_WINDOW && {
+      window: appliedFilters.window,
+      windowFrom: appliedFilters.windowFrom,
+      windowTo: appliedFilters.windowTo,
+    }),
+  }).toString()
+
+  const fetchData = useCallback(async ({ cacheBust = false } = {}) => {
     try {
       setLoading(true)
       setError(null)
 
-      const params = new URLSearchParams()
+      const params = new URLSearchParams(dataQuery)
       if (cacheBust) params.append('cacheBust', String(Date.now()))
-      if (targetFilters.repositories.length > 0) {
-        params.append('repos', targetFilters.repositories.join(','))
-      }
-      if (targetFilters.labels.length > 0) {
-        params.append('labels', targetFilters.labels.join(','))
-      }
-      if (targetFilters.ageRange !== 'all') {
-        params.append('age', targetFilters.ageRange)
-      }
-      if (targetFilters.status && targetFilters.status !== 'all') {
-        params.append('status', targetFilters.status)
-      }
-      if (targetFilters.noReviewers) {
-        params.append('noReviewers', 'true')
-      }
-      if (targetFilters.limit && targetFilters.limit !== 'all') {
-        params.append('limit', targetFilters.limit)
-      }
-      if (targetFilters.draftStatus && targetFilters.draftStatus !== 'all') {
-        params.append('draftStatus', targetFilters.draftStatus)
-      }
-      if (targetFilters.authorType && targetFilters.authorType !== 'all') {
-        params.append('authorType', targetFilters.authorType)
-      }
-      if (targetFilters.reviewer && targetFilters.reviewer !== 'all') {
-        params.append('reviewer', targetFilters.reviewer)
-      }
 
       const response = await fetch(`/api/dashboard?${params}`)
       if (response.status === 429) {
@@ -90,29 +90,15 @@ export default function Dashboard() {
 
       const result = await response.json()
       setData(result)
-
-      // Update the list of all reviewers when no reviewer filter is applied
-      // This ensures the dropdown always shows all available reviewers
-      if (!targetFilters.reviewer || targetFilters.reviewer === 'all') {
-        const reviewerSet = new Set<string>()
-        result.prs?.forEach((pr: any) => {
-          pr.requestedReviewers?.users?.forEach((reviewer: string) => {
-            reviewerSet.add(reviewer)
-          })
-        })
-        setAllReviewers(Array.from(reviewerSet).sort((a, b) =>
-          a.toLowerCase().localeCompare(b.toLowerCase())
-        ))
-      }
     } catch (err) {
       console.error('Error fetching dashboard data:', err)
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
       setLoading(false)
     }
-  }, [appliedFilters])
+  }, [dataQuery])
 
-  // Initial load
+  // Load on mount and whenever the repositories or stats window change
   useEffect(() => {
     fetchData()
   }, [fetchData])
@@ -137,35 +123,43 @@ export default function Dashboard() {
     }
   }, [fetchData])
 
+  const updateFilters = (newFilters: FilterState) => {
+    setFilters(newFilters)
+    setAppliedFilters(newFilters)
+  }
+
   const handleClearFilters = () => {
-    const clearedFilters = {
-      repositories: [],
-      labels: [],
-      ageRange: 'all', // Default to All Time - no filtering
-      status: 'all',
-      noReviewers: false,
-      limit: 'all',
-      draftStatus: 'all',
-      authorType: 'all',
-      reviewer: 'all'
-    }
-    setFilters(clearedFilters)
-    setAppliedFilters(clearedFilters)
-    fetchData(clearedFilters)
+    updateFilters(DEFAULT_FILTERS)
+  }
+
+  // The stats window applies immediately, except a custom range waits for its start date
+  const handleWindowChange = (changes: Partial<FilterState>) => {
+    const newFilters = { ...filters, ...changes }
+    setFilters(newFilters)
+    if (newFilters.window === 'custom' && !newFilters.windowFrom) return
+    setAppliedFilters(newFilters)
   }
 
+  const windowLabel = data?.window?.key === 'custom'
+    ? `${data.window.since.slice(0, 10)} – ${data.window.until.slice(0, 10)}`
+    : STATS_WINDOW_LABELS[data?.window?.key ?? DEFAULT_STATS_WINDOW]
+
   const handleRefresh = (e: React.MouseEvent) => {
-    fetchData(undefined, { cacheBust: e.shiftKey })
+    fetchData({ cacheBust: e.shiftKey })
   }
 
-  // Compute unique reviewers from all PRs for the filter dropdown
-  // Uses allReviewers state which is captured when no reviewer filter is applied
+  const visiblePrs = useMemo(
+    () => applyFilters(data?.prs || [], appliedFilters, data?.filterOptions ?? DEFAULT_FILTER_OPTIONS),
+    [data, appliedFilters]
+  )
+
+  // The API returns every PR, so the dropdown lists every requested reviewer whatever is filtered
   const reviewerOptions = useMemo(() => {
     return [
       { value: 'all', label: 'All Reviewers' },
-      ...allReviewers.map(reviewer => ({ value: reviewer, label: reviewer }))
+      ...reviewerFilterValues(data?.prs || []).map(reviewer => ({ value: reviewer, label: reviewer }))
     ]
-  }, [allReviewers])
+  }, [data])
 
   if (loading && !data) {
     return (
@@ -185,16 +179,21 @@ export default function Dashboard() {
           <div className="flex justify-between items-center py-4">
             <div className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-gray-900'} flex items-center`}>
               OpenHands PR Review Dashboard
+              {data?.viewer === 'internal' && (
+                <span
+                  className={`ml-3 px-2 py-0.5 rounded text-xs font-semibold ${darkMode ? 'bg-amber-900 text-amber-200' : 'bg-amber-100 text-amber-800'}`}
+                  title="Includes PRs from private repositories"
+                >
+                  Internal view
+                </span>
+              )}
               <WhatsNew darkMode={darkMode} />
             </div>
             <div className="flex items-center gap-4">
               <RepositorySelector
                 value={filters.repositories}
                 onChange={(repos) => {
-                  const newFilters = { ...filters, repositories: repos }
-                  setFilters(newFilters)
-                  setAppliedFilters(newFilters)
-                  fetchData(newFilters)
+                  updateFilters({ ...filters, repositories: repos })
                 }}
                 className="w-[300px]"
                 darkMode={darkMode}
@@ -218,13 +217,22 @@ export default function Dashboard() {
         </div>
       </header>
 
+      {data?.rateLimitResetAt && (
+        <div className={`border-b ${darkMode ? 'bg-amber-900 border-amber-800 text-amber-100' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+          <div className="max-w-7xl mx-auto px-5 py-2 text-sm" role="status">
+            ⚠️ GitHub rate limit reached — showing data from {data.lastUpdated ? new Date(data.lastUpdated).toLocaleString() : 'an earlier fetch'}.
+            It will refresh after {new Date(data.rateLimitResetAt).toLocaleTimeString()}.
+          </div>
+        </div>
+      )}
+
       <div className="max-w-7xl mx-auto px-5">
         {/* KPI Section - Matching wireframe layout */}
         <section className="py-6">
           <h2 className={`text-xl font-semibold mb-4 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
             Key Performance Indicators
           </h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-5">
             <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg p-5 shadow-sm`}>
               <h3 className={`text-xs font-semibold uppercase tracking-wide mb-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                 Community PRs Open
@@ -264,6 +272,16 @@ export default function Dashboard() {
               </div>
               <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>PRs with assigned reviewers</div>
             </div>
+
+            <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg p-5 shadow-sm`}>
+              <h3 className={`text-xs font-semibold uppercase tracking-wide mb-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                First-Time Contributors Waiting
+              </h3>
+              <div className={`text-3xl font-bold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                {data?.kpis.firstTimeContributorsWaiting || 0}
+              </div>
+              <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Newcomer PRs awaiting a first response</div>
+            </div>
           </div>
         </section>
 
@@ -272,7 +290,7 @@ export default function Dashboard() {
           <h2 className={`text-xl font-semibold mb-4 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
             Review Accountability
           </h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5">
             <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg p-5 shadow-sm`}>
               <h3 className={`text-sm font-semibold mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Current Review Load</h3>
               <div className={`text-3xl font-bold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
@@ -282,7 +300,7 @@ export default function Dashboard() {
             </div>
 
             <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg p-5 shadow-sm`}>
-              <h3 className={`text-sm font-semibold mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Reviews Completed (Last 30 Days)</h3>
+              <h3 className={`text-sm font-semibold mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Reviews Completed ({windowLabel})</h3>
               <div className={`text-3xl font-bold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
                 {data?.reviewers?.reduce((sum, r) => sum + r.completedTotal, 0) || 0}
               </div>
@@ -296,6 +314,17 @@ export default function Dashboard() {
               </div>
               <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Need reviewer assignment</div>
             </div>
+
+            <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg p-5 shadow-sm`}>
+              <h3 className={`text-sm font-semibold mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Closed Without Review ({windowLabel})</h3>
+              <div className={`text-3xl font-bold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                {data?.kpis.communityPrsClosedWithoutReview || 0}
+              </div>
+              <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Community PRs closed unmerged, never reviewed</div>
+              <div className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Median time to close: {data?.kpis.medianCommunityTimeToClose || 'N/A'}
+              </div>
+            </div>
           </div>
         </section>
 
@@ -304,88 +333,59 @@ export default function Dashboard() {
           <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg p-5 shadow-sm overflow-visible`}>
             <div className="flex justify-between items-center mb-4">
               <div>
-                <h3 className={`text-sm font-semibold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Reviewer Statistics (Last 30 Days)</h3>
+                <h3 className={`text-sm font-semibold mb-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Reviewer Statistics ({windowLabel})</h3>
                 <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Sorted by reviews completed</div>
               </div>
-              <button
-                onClick={() => setShowAllReviewers(!showAllReviewers)}
-                className={`px-3 py-1 text-xs ${darkMode ? 'bg-gray-700 hover:bg-gray-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'} rounded border transition-colors`}
-              >
-                {showAllReviewers ? 'Show Top 5' : `Show All (${data?.reviewers?.length || 0})`}
-              </button>
+              <div className="flex items-center gap-2">
+                <CustomDropdown
+                  options={Object.entries(STATS_WINDOW_LABELS).map(([value, label]) => ({ value, label }))}
+                  value={filters.window || DEFAULT_STATS_WINDOW}
+                  onChange={(value) => handleWindowChange({ window: value as FilterState['window'] })}
+                  darkMode={darkMode}
+                  className="w-40"
+                />
+                {filters.window === 'custom' && (
+                  <>
+                    <input
+                      type="date"
+                      aria-label="Window start"
+                      value={filters.windowFrom || ''}
+                      onChange={(e) => handleWindowChange({ windowFrom: e.target.value })}
+                      className={`px-2 py-1 text-xs border rounded ${darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                    />
+                    <input
+                      type="date"
+                      aria-label="Window end"
+                      value={filters.windowTo || ''}
+                      onChange={(e) => handleWindowChange({ windowTo: e.target.value })}
+                      className={`px-2 py-1 text-xs border rounded ${darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                    />
+                  </>
+                )}
+                <button
+                  onClick={() => setShowAllReviewers(!showAllReviewers)}
+                  className={`px-3 py-1 text-xs ${darkMode ? 'bg-gray-700 hover:bg-gray-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'} rounded border transition-colors`}
+                >
+                  {showAllReviewers ? 'Show Top 5' : `Show All (${(data?.reviewers?.length || 0) + (data?.teams?.length || 0)})`}
+                </button>
+              </div>
             </div>
             <div className="overflow-visible">
               <table className="w-full">
                 <thead>
                   <tr className={`border-b ${darkMode ? 'border-gray-600' : 'border-gray-200'}`}>
                     <th className={`text-left py-2 px-2 text-xs font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Reviewer</th>
-                    <th className={`text-center py-2 px-2 text-xs font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      <Tooltip
-                        content="Number of unique community PRs reviewed (external contributors without write access). Median shows time from ready-for-review to first review. For draft PRs, this is when marked ready; otherwise, when created. Only counts merged PRs."
-                        darkMode={darkMode}
-                      >
-                        <span>Community PRs</span>
-                        <span className={`${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>ⓘ</span>
-                      </Tooltip>
-                      <div className={`text-[10px] font-normal ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>(count / median)</div>
-                    </th>
-                    <th className={`text-center py-2 px-2 text-xs font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      <Tooltip
-                        content="Number of unique org member PRs reviewed (employees and collaborators with write access). Median shows time from ready-for-review to first review. For draft PRs, this is when marked ready; otherwise, when created. Only counts merged PRs."
-                        darkMode={darkMode}
-                      >
-                        <span>Org Member PRs</span>
-                        <span className={`${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>ⓘ</span>
-                      </Tooltip>
-                      <div className={`text-[10px] font-normal ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>(count / median)</div>
-                    </th>
-                    <th className={`text-center py-2 px-2 text-xs font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      <Tooltip
-                        content="Number of unique bot PRs reviewed (dependabot, renovate, etc.). Median shows time from ready-for-review to first review. For draft PRs, this is when marked ready; otherwise, when created. Only counts merged PRs."
-                        darkMode={darkMode}
-                      >
-                        <span>Bot PRs</span>
-                        <span className={`${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>ⓘ</span>
-                      </Tooltip>
-                      <div className={`text-[10px] font-normal ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>(count / median)</div>
-                    </th>
-                    <th className={`text-center py-2 px-2 text-xs font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      <Tooltip
-                        content="Total review actions submitted on merged PRs. Format: total / requested / unrequested. Includes multiple reviews on the same PR. 'Requested' means the reviewer was explicitly asked. 'Unrequested' means the reviewer acted voluntarily."
-                        darkMode={darkMode}
-                      >
-                        <span>Completed Reviews</span>
-                        <span className={`${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>ⓘ</span>
-                      </Tooltip>
-                      <div className={`text-[10px] font-normal ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>(total / requested / unrequested)</div>
-                    </th>
-                    <th className={`text-center py-2 px-2 text-xs font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      <Tooltip
-                        content="Total review requests received in the last 30 days. Counts how many times this reviewer was explicitly asked to review a PR."
-                        darkMode={darkMode}
-                      >
-                        <span>Requested</span>
-                        <span className={`${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>ⓘ</span>
-                      </Tooltip>
-                    </th>
-                    <th className={`text-center py-2 px-2 text-xs font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      <Tooltip
-                        content="Percentage of review requests that were completed. Calculated as: (Completed Requested / Requested) × 100. Shows how often reviews are completed when explicitly requested."
-                        darkMode={darkMode}
-                      >
-                        <span>Completion %</span>
-                        <span className={`${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>ⓘ</span>
-                      </Tooltip>
-                    </th>
-                    <th className={`text-center py-2 px-2 text-xs font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      <Tooltip
-                        content="Number of open PRs currently awaiting review from this person. These are active review requests that haven't been completed yet."
-                        darkMode={darkMode}
-                      >
-                        <span>Pending</span>
-                        <span className={`${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>ⓘ</span>
-                      </Tooltip>
-                    </th>
+                    {REVIEWER_STAT_COLUMNS.map(column => (
+                      <th key={column.label} className={`text-center py-2 px-2 text-xs font-semibold ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        <Tooltip content={column.tooltip} darkMode={darkMode}>
+                          <span>{column.label}</span>
+                          <span className={`${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>ⓘ</span>
+                        </Tooltip>
+                        {column.detail && (
+                          <div className={`text-[10px] font-normal ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{column.detail}</div>
+                        )}
+                      </th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody>
@@ -466,11 +466,33 @@ export default function Dashboard() {
                     );
                   }) || (
                     <tr>
-                      <td colSpan={8} className={`py-4 text-center text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      <td colSpan={REVIEWER_STAT_COLUMNS.length + 1} className={`py-4 text-center text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                         No reviewer data available
                       </td>
                     </tr>
                   )}
+                  {/* Team review requests; completed reviews are always by a person, so only pending applies */}
+                  {(showAllReviewers ? data?.teams : data?.teams?.slice(0, 5))?.map(team => (
+                    <tr key={`team:${team.name}`} className={`border-b last:border-b-0 ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                      <td className={`py-2 px-2 text-sm font-medium ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                        {team.name}
+                        <span
+                          className={`ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold ${darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'}`}
+                          title={`${team.memberCount} member${team.memberCount === 1 ? '' : 's'}`}
+                        >
+                          Team
+                        </span>
+                      </td>
+                      {Array.from({ length: REVIEWER_STAT_COLUMNS.length - 1 }, (_, i) => (
+                        <td key={i} className={`py-2 px-2 text-center text-sm ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>-</td>
+                      ))}
+                      <td className="py-2 px-2 text-center">
+                        <span className="bg-red-500 text-white px-2 py-1 rounded-full text-xs font-semibold">
+                          {team.pendingCount}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
                 </tbody>
               </table>
             </div>
@@ -481,16 +503,13 @@ export default function Dashboard() {
         <section className="py-6">
           <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg p-5 shadow-sm`}>
             <h3 className={`text-sm font-semibold mb-4 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Filters</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 xl:grid-cols-8 gap-4 mb-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-4">
               <div className="flex flex-col">
                 <label className={`text-sm font-medium mb-1.5 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Repository</label>
                 <RepositorySelector
                   value={filters.repositories}
                   onChange={(repos) => {
-                    const newFilters = { ...filters, repositories: repos }
-                    setFilters(newFilters)
-                    setAppliedFilters(newFilters)
-                    fetchData(newFilters)
+                    updateFilters({ ...filters, repositories: repos })
                   }}
                   className="w-full"
                   darkMode={darkMode}
@@ -510,10 +529,7 @@ export default function Dashboard() {
                   ]}
                   value={filters.ageRange}
                   onChange={(value) => {
-                    const newFilters = { ...filters, ageRange: value as string }
-                    setFilters(newFilters)
-                    setAppliedFilters(newFilters)
-                    fetchData(newFilters)
+                    updateFilters({ ...filters, ageRange: value as string })
                   }}
                   placeholder="All Time"
                   darkMode={darkMode}
@@ -533,10 +549,7 @@ export default function Dashboard() {
                   value={filters.labels.join(', ')}
                   onChange={(e) => {
                     const labels = e.target.value.split(',').map(l => l.trim()).filter(l => l)
-                    const newFilters = { ...filters, labels }
-                    setFilters(newFilters)
-                    setAppliedFilters(newFilters)
-                    fetchData(newFilters)
+                    updateFilters({ ...filters, labels })
                   }}
                 />
               </div>
@@ -552,10 +565,7 @@ export default function Dashboard() {
                   ]}
                   value={filters.status || 'all'}
                   onChange={(value) => {
-                    const newFilters = { ...filters, status: value as string }
-                    setFilters(newFilters)
-                    setAppliedFilters(newFilters)
-                    fetchData(newFilters)
+                    updateFilters({ ...filters, status: value as string })
                   }}
                   placeholder="All Status"
                   darkMode={darkMode}
@@ -572,10 +582,42 @@ export default function Dashboard() {
                   ]}
                   value={filters.draftStatus || 'all'}
                   onChange={(value) => {
-                    const newFilters = { ...filters, draftStatus: value as string }
-                    setFilters(newFilters)
-                    setAppliedFilters(newFilters)
-                    fetchData(newFilters)
+                    updateFilters({ ...filters, draftStatus: value as string })
+                  }}
+                  placeholder="All PRs"
+                  darkMode={darkMode}
+                />
+              </div>
+
+              <div className="flex flex-col">
+                <label className={`text-sm font-medium mb-1.5 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>CI</label>
+                <CustomDropdown
+                  options={[
+                    { value: 'all', label: 'Any CI Status' },
+                    { value: 'passing', label: 'Passing' },
+                    { value: 'failing', label: 'Failing' },
+                    { value: 'pending', label: 'Pending' }
+                  ]}
+                  value={filters.ci || 'all'}
+                  onChange={(value) => {
+                    updateFilters({ ...filters, ci: value as string })
+                  }}
+                  placeholder="Any CI Status"
+                  darkMode={darkMode}
+                />
+              </div>
+
+              <div className="flex flex-col">
+                <label className={`text-sm font-medium mb-1.5 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Merge Conflicts</label>
+                <CustomDropdown
+                  options={[
+                    { value: 'all', label: 'All PRs' },
+                    { value: 'true', label: 'Only Conflicting' },
+                    { value: 'false', label: 'No Conflicts' }
+                  ]}
+                  value={filters.conflicts || 'all'}
+                  onChange={(value) => {
+                    updateFilters({ ...filters, conflicts: value as string })
                   }}
                   placeholder="All PRs"
                   darkMode={darkMode}
@@ -595,10 +637,7 @@ export default function Dashboard() {
                   ]}
                   value={filters.authorType || 'all'}
                   onChange={(value) => {
-                    const newFilters = { ...filters, authorType: value as string }
-                    setFilters(newFilters)
-                    setAppliedFilters(newFilters)
-                    fetchData(newFilters)
+                    updateFilters({ ...filters, authorType: value as string })
                   }}
                   placeholder="All Authors"
                   darkMode={darkMode}
@@ -611,10 +650,7 @@ export default function Dashboard() {
                   options={reviewerOptions}
                   value={filters.reviewer || 'all'}
                   onChange={(value) => {
-                    const newFilters = { ...filters, reviewer: value as string, noReviewers: false }
-                    setFilters(newFilters)
-                    setAppliedFilters(newFilters)
-                    fetchData(newFilters)
+                    updateFilters({ ...filters, reviewer: value as string, noReviewers: false })
                   }}
                   placeholder="All Reviewers"
                   darkMode={darkMode}
@@ -629,10 +665,7 @@ export default function Dashboard() {
                     id="noReviewers"
                     checked={filters.noReviewers || false}
                     onChange={(e) => {
-                      const newFilters = { ...filters, noReviewers: e.target.checked, reviewer: e.target.checked ? 'all' : filters.reviewer }
-                      setFilters(newFilters)
-                      setAppliedFilters(newFilters)
-                      fetchData(newFilters)
+                      updateFilters({ ...filters, noReviewers: e.target.checked, reviewer: e.target.checked ? 'all' : filters.reviewer })
                     }}
                     className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                   />
@@ -644,6 +677,27 @@ export default function Dashboard() {
                   </label>
                 </div>
               </div>
+
+              <div className="flex flex-col">
+                <label className={`text-sm font-medium mb-1.5 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Contributor</label>
+                <div className="flex items-center h-[38px]">
+                  <input
+                    type="checkbox"
+                    id="firstTimeContributors"
+                    checked={filters.firstTimeContributors || false}
+                    onChange={(e) => {
+                      updateFilters({ ...filters, firstTimeContributors: e.target.checked })
+                    }}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label
+                    htmlFor="firstTimeContributors"
+                    className={`ml-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}
+                  >
+                    First-time only
+                  </label>
+                </div>
+              </div>
             </div>
 
             {/* Filter Action Buttons */}
@@ -678,10 +732,7 @@ export default function Dashboard() {
                   ]}
                   value={filters.limit || 'all'}
                   onChange={(value) => {
-                    const newFilters = { ...filters, limit: value as string }
-                    setFilters(newFilters)
-                    setAppliedFilters(newFilters)
-                    fetchData(newFilters)
+                    updateFilters({ ...filters, limit: value as string })
                   }}
                   placeholder="All PRs"
                   darkMode={darkMode}
@@ -704,7 +755,7 @@ export default function Dashboard() {
               </div>
             )}
             <div className="overflow-x-auto">
-              <PrTable prs={data?.prs || []} darkMode={darkMode} totalPrs={data?.totalPrs} />
+              <PrTable prs={visiblePrs} darkMode={darkMode} totalPrs={data?.totalPrs} />
             </div>
           </div>
         </section>
@@ -714,6 +765,7 @@ export default function Dashboard() {
           Data refreshed every 2 minutes •
           <span className="ml-1">
             Last updated: {data?.lastUpdated ? new Date(data.lastUpdated).toLocaleString() : 'Never'}
+            {data?.isStale && !data.rateLimitResetAt && ' (refreshing in the background)'}
           </span>
         </footer>
       </div>
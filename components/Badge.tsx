@@ -1,6 +1,6 @@
 interface BadgeProps {
   children: React.ReactNode;
-  variant?: 'community' | 'employee' | 'maintainer' | 'collaborator' | 'bot' | 'overdue' | 'needs-response' | 'default';
+  variant?: 'community' | 'employee' | 'maintainer' | 'collaborator' | 'bot' | 'overdue' | 'needs-response' | 'first-time' | 'default';
   className?: string;
 }
 
@@ -13,6 +13,7 @@ export default function Badge({ children, variant = 'default', className = '' }:
     bot: 'bg-gray-100 text-gray-600',
     overdue: 'bg-red-100 text-red-800',
     'needs-response': 'bg-yellow-100 text-yellow-800',
+    'first-time': 'bg-pink-100 text-pink-800',
     default: 'bg-gray-100 text-gray-800',
   };
 
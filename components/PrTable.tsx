@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { PR } from '@/lib/types';
+import { CIStatus, PR } from '@/lib/types';
 import Badge from './Badge';
 
 interface PrTableProps {
@@ -9,7 +9,13 @@ interface PrTableProps {
   totalPrs?: number;
 }
 
-type SortField = 'title' | 'author' | 'age' | 'created';
+type SortField = 'title' | 'author' | 'age' | 'size' | 'created';
+
+const CI_STATUS_ICONS: Record<CIStatus, { icon: string; className: string; label: string }> = {
+  passing: { icon: '✓', className: 'text-green-600', label: 'Checks passing' },
+  failing: { icon: '✗', className: 'text-red-600', label: 'Checks failing' },
+  pending: { icon: '●', className: 'text-yellow-500', label: 'Checks pending' },
+};
 type SortDirection = 'asc' | 'desc';
 
 export default function PrTable({ prs, loading = false, darkMode = false, totalPrs }: PrTableProps) {
@@ -42,6 +48,10 @@ export default function PrTable({ prs, loading = false, darkMode = false, totalP
         aValue = a.ageHours;
         bValue = b.ageHours;
         break;
+      case 'size':
+        aValue = a.additions + a.deletions;
+        bValue = b.additions + b.deletions;
+        break;
       case 'created':
         aValue = new Date(a.createdAt).getTime();
         bValue = new Date(b.createdAt).getTime();
@@ -149,12 +159,24 @@ export default function PrTable({ prs, loading = false, darkMode = false, totalP
                 <SortIcon field="age" />
               </div>
             </th>
+            <th 
+              className={`px-4 py-3 text-left text-xs font-medium uppercase tracking-wider cursor-pointer hover:bg-opacity-75 ${darkMode ? 'text-gray-300 hover:bg-gray-600' : 'text-gray-500 hover:bg-gray-100'}`}
+              onClick={() => handleSort('size')}
+            >
+              <div className="flex items-center">
+                Size
+                <SortIcon field="size" />
+              </div>
+            </th>
             <th className={`px-4 py-3 text-left text-xs font-medium uppercase tracking-wider ${darkMode ? 'text-gray-300' : 'text-gray-500'}`}>
               Status
             </th>
             <th className={`px-4 py-3 text-left text-xs font-medium uppercase tracking-wider ${darkMode ? 'text-gray-300' : 'text-gray-500'}`}>
               Reviewers
             </th>
+            <th className={`px-4 py-3 text-left text-xs font-medium uppercase tracking-wider ${darkMode ? 'text-gray-300' : 'text-gray-500'}`}>
+              Suggested Reviewers
+            </th>
           </tr>
         </thead>
         <tbody className={`divide-y ${darkMode ? 'divide-gray-600' : 'divide-gray-200'}`}>
@@ -173,6 +195,14 @@ export default function PrTable({ prs, loading = false, darkMode = false, totalP
                     </a>
                     <div className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                       {pr.repo}#{pr.number}
+                      {pr.truncated && (
+                        <span
+                          className="ml-1 text-yellow-600"
+                          title="This PR has more reviews or timeline events than were fetched; response times may be inaccurate"
+                        >
+                          · partial data
+                        </span>
+                      )}
                     </div>
                     {pr.labels.length > 0 && (
                       <div className="flex flex-wrap gap-1 mt-1">
@@ -197,6 +227,9 @@ export default function PrTable({ prs, loading = false, darkMode = false, totalP
                     <Badge variant={pr.authorType} className="ml-2">
                       {pr.authorType.charAt(0).toUpperCase() + pr.authorType.slice(1)}
                     </Badge>
+                    {pr.isFirstTimeContributor && (
+                      <Badge variant="first-time" className="ml-1">First-time</Badge>
+                    )}
                   </div>
                 </td>
                 
@@ -209,8 +242,37 @@ export default function PrTable({ prs, loading = false, darkMode = false, totalP
                   </div>
                 </td>
                 
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <div
+                    className={`text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}
+                    title={`${pr.changedFiles} file${pr.changedFiles !== 1 ? 's' : ''} changed`}
+                  >
+                    {pr.size}
+                  </div>
+                  <div className="text-xs">
+                    <span className="text-green-600">+{pr.additions}</span>{' '}
+                    <span className="text-red-600">−{pr.deletions}</span>
+                  </div>
+                </td>
+                
                 <td className="px-4 py-3 whitespace-nowrap">
                   <div className="flex flex-col gap-1">
+                    {(pr.ciStatus || pr.mergeable === 'CONFLICTING') && (
+                      <div className="flex items-center gap-2">
+                        {pr.ciStatus && (
+                          <span
+                            className={`text-sm font-bold ${CI_STATUS_ICONS[pr.ciStatus].className}`}
+                            title={CI_STATUS_ICONS[pr.ciStatus].label}
+                            aria-label={CI_STATUS_ICONS[pr.ciStatus].label}
+                          >
+                            {CI_STATUS_ICONS[pr.ciStatus].icon}
+                          </span>
+                        )}
+                        {pr.mergeable === 'CONFLICTING' && (
+                          <Badge variant="overdue">Conflicts</Badge>
+                        )}
+                      </div>
+                    )}
                     {pr.isDraft && (
                       <Badge variant="default">Draft</Badge>
                     )}
@@ -247,6 +309,20 @@ export default function PrTable({ prs, loading = false, darkMode = false, totalP
                     )}
                   </div>
                 </td>
+
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {pr.suggestedReviewers && pr.suggestedReviewers.length > 0 ? (
+                    <div className="flex flex-wrap gap-1" title="Code owners of the changed files">
+                      {pr.suggestedReviewers.map((login) => (
+                        <Badge key={login} variant="default">
+                          {login}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className={`text-sm ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>—</span>
+                  )}
+                </td>
               </tr>
             ))}
         </tbody>
@@ -1,15 +1,7 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-
-interface Repository {
-  id: number
-  name: string
-  full_name: string
-  description: string | null
-  stargazers_count: number
-  language: string | null
-}
+import { Repository } from '@/lib/types'
 
 interface RepositorySelectorProps {
   value: string[]
@@ -51,7 +43,7 @@ export default function RepositorySelector({ value, onChange, className = '', da
       setLoading(true)
       setError(null)
       
-      // Fetch OpenHands organization repositories
+      // Tracked repositories, discovered server-side from ORGS and the REPOS_* settings
       const response = await fetch('/api/repositories')
       if (!response.ok) {
         throw new Error('Failed to fetch repositories')
@@ -62,25 +54,6 @@ export default function RepositorySelector({ value, onChange, className = '', da
     } catch (err) {
       console.error('Error fetching repositories:', err)
       setError(err instanceof Error ? err.message : 'Failed to fetch repositories')
-      // Fallback to default repositories
-      setRepositories([
-        {
-          id: 1,
-          name: 'OpenHands',
-          full_name: 'All-Hands-AI/OpenHands',
-          description: 'OpenHands: Code Less, Make More',
-          stargazers_count: 35000,
-          language: 'Python'
-        },
-        {
-          id: 2,
-          name: 'agent-sdk',
-          full_name: 'All-Hands-AI/agent-sdk',
-          description: 'SDK for building AI agents',
-          stargazers_count: 500,
-          language: 'TypeScript'
-        }
-      ])
     } finally {
       setLoading(false)
     }
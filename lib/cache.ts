@@ -1,68 +1,304 @@
-type CacheEntry<T> = {
+import { config } from './config';
+import { CacheBackend, CacheEntry, createCacheBackend } from './cacheBackends';
+import { RateLimitError } from './githubErrors';
+
+export type StaleTtl = {
+  ttlSeconds: number;
+  staleTtlSeconds: number;
+};
+
+export type StaleCacheOptions = {
+  // Keeps the platform running a background refresh after the response is sent (e.g. `after` from next/server);
+  // without it, a serverless function may be frozen before the refresh finishes
+  waitUntil?: (task: Promise<unknown>) => void;
+};
+
+export type CachedResult<T> = {
   data: T;
-  expiry: number;
+  lastUpdated: string;
+  isStale: boolean;
+  // The last refresh hit GitHub's rate limit, which resets at this time
+  rateLimitResetAt?: string;
+};
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  // Callers that missed while another fetch for the same key was already running
+  coalesced: number;
+  // Stale entries served while a refresh ran (or was rate limited)
+  stale: number;
+  inFlight: number;
+  backend: CacheBackend['name'];
 };
 
-class InMemoryCache {
-  private cache = new Map<string, CacheEntry<any>>();
+// GitHub's rate limits reset hourly, so stale-while-revalidate entries outlive their stale TTL by that much
+// in case the refresh that should replace them is rate limited
+const RATE_LIMIT_FALLBACK_MS = 60 * 60 * 1000;
+
+function newEntry<T>(data: T, ttlSeconds: number, staleTtlSeconds: number, fallbackMs: number = 0): CacheEntry<T> {
+  const storedAt = Date.now();
+  const staleUntil = storedAt + (Math.max(ttlSeconds, staleTtlSeconds) * 1000);
+  return {
+    data,
+    storedAt,
+    freshUntil: storedAt + (ttlSeconds * 1000),
+    staleUntil,
+    expiry: staleUntil + fallbackMs,
+  };
+}
+
+class DashboardCache {
+  private backend: CacheBackend | null = null;
+  private inFlight = new Map<string, Promise<any>>();
+  private patches = new Map<string, Promise<unknown>>();
+  private stats = { hits: 0, misses: 0, coalesced: 0, stale: 0 };
+
+  // Created on first use, so CACHE_BACKEND is read after the environment is loaded
+  private get store(): CacheBackend {
+    if (!this.backend) {
+      this.backend = createCacheBackend(config.cache.backend, config.cache);
+    }
+    return this.backend;
+  }
+
+  useBackend(backend: CacheBackend): void {
+    this.backend = backend;
+    this.inFlight.clear();
+  }
+
+  // A failing backend (e.g. Redis down) degrades to cache misses instead of failing requests
+  private async read<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return await this.store.get<T>(key);
+    } catch (error) {
+      console.warn(`Cache read of ${key} from the ${this.store.name} backend failed:`, error);
+      return undefined;
+    }
+  }
 
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-    
-    if (Date.now() > entry.expiry) {
-      this.cache.delete(key);
-      return null;
+  private async write<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    try {
+      await this.store.set(key, entry);
+    } catch (error) {
+      console.warn(`Cache write of ${key} to the ${this.store.name} backend failed:`, error);
     }
-    
-    return entry.data;
   }
 
-  set<T>(key: string, data: T, ttlSeconds: number): void {
-    const expiry = Date.now() + (ttlSeconds * 1000);
-    this.cache.set(key, { data, expiry });
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.read<T>(key);
+    return entry && Date.now() <= entry.staleUntil ? entry.data : null;
+  }
+
+  async set<T>(key: string, data: T, ttlSeconds: number, staleTtlSeconds: number = ttlSeconds): Promise<void> {
+    await this.write(key, newEntry(data, ttlSeconds, staleTtlSeconds));
+  }
+
+  /**
+   * Update a cached value in place, keeping its expiry. Resolves false when
+   * nothing live is cached under `key` or `update` reports no change. Patches
+   * to one key run one at a time within this process only: instances sharing
+   * a backend (e.g. Redis) can still overwrite each other's concurrent patches.
+   * Lost patches heal when the entry expires and is refetched.
+   */
+  async patch<T>(key: string, update: (data: T) => boolean): Promise<boolean> {
+    const run = (this.patches.get(key) ?? Promise.resolve()).then(async () => {
+      const entry = await this.read<T>(key);
+      if (!entry || Date.now() > entry.staleUntil || !update(entry.data)) return false;
+      await this.write(key, entry);
+      return true;
+    });
+
+    const settled = run.catch(() => undefined);
+    this.patches.set(key, settled);
+    settled.then(() => {
+      if (this.patches.get(key) === settled) this.patches.delete(key);
+    });
+    return run;
   }
 
+  /**
+   * Cached value for `key`, or the result of `fetcher`. Concurrent misses for
+   * the same key share one fetch (single flight); if it rejects, every waiter
+   * gets the error and nothing is cached, so the next call retries.
+   */
   async withCache<T>(
     key: string,
     ttlSeconds: number,
     fetcher: () => Promise<T>
   ): Promise<T> {
-    const cached = this.get<T>(key);
-    if (cached !== null) {
-      return cached;
+    const entry = await this.read<T>(key);
+    if (entry && Date.now() <= entry.staleUntil) {
+      this.stats.hits++;
+      return entry.data;
     }
 
-    const data = await fetcher();
-    this.set(key, data, ttlSeconds);
-    return data;
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+      return pending;
+    }
+
+    this.stats.misses++;
+    return this.fetchOnce(key, fetcher, data => this.set(key, data, ttlSeconds));
   }
 
-  clear(): void {
-    this.cache.clear();
+  /**
+   * Stale-while-revalidate variant of `withCache`. Within `ttlSeconds` the
+   * entry is fresh; until `staleTtlSeconds` it's returned immediately, marked
+   * stale, while one background refresh replaces it. After that callers wait
+   * for the refresh, except that a refresh hitting GitHub's rate limit falls
+   * back to the old entry, kept for another hour for this, instead of failing.
+   * The background refresh is handed to `waitUntil` when one is given.
+   */
+  async withStaleCache<T>(
+    key: string,
+    { ttlSeconds, staleTtlSeconds }: StaleTtl,
+    fetcher: () => Promise<T>,
+    { waitUntil }: StaleCacheOptions = {}
+  ): Promise<CachedResult<T>> {
+    const entry = await this.read<T>(key);
+    const now = Date.now();
+    const store = (data: T) => this.write(key, newEntry(data, ttlSeconds, staleTtlSeconds, RATE_LIMIT_FALLBACK_MS));
+
+    if (entry && now <= entry.freshUntil) {
+      this.stats.hits++;
+      return this.toResult(entry, false);
+    }
+
+    const rateLimited = entry?.rateLimitedUntil !== undefined && now < entry.rateLimitedUntil;
+    if (entry && (now <= entry.staleUntil || rateLimited)) {
+      this.stats.stale++;
+      if (!rateLimited && !this.inFlight.has(key)) {
+        const refresh = this.fetchOnce(key, fetcher, store).catch(error => this.refreshFailed(key, entry, error));
+        waitUntil?.(refresh);
+      }
+      return this.toResult(entry, true);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+    } else {
+      this.stats.misses++;
+    }
+
+    try {
+      const data: T = await (pending ?? this.fetchOnce(key, fetcher, store));
+      return { data, lastUpdated: new Date().toISOString(), isStale: false };
+    } catch (error) {
+      if (!entry || !(error instanceof RateLimitError)) throw error;
+      const fallback = await this.refreshFailed(key, entry, error);
+      this.stats.stale++;
+      return this.toResult(fallback, true);
+    }
   }
 
-  size(): number {
-    return this.cache.size;
+  // Single flight: concurrent callers for `key` share one fetcher call, and failures aren't stored
+  private fetchOnce<T>(key: string, fetcher: () => Promise<T>, store: (data: T) => Promise<void>): Promise<T> {
+    const request: Promise<T> = Promise.resolve()
+      .then(fetcher)
+      .then(async data => {
+        // Invalidated mid-flight (e.g. by a webhook): hand back the result but don't cache it
+        if (this.inFlight.get(key) === request) {
+          await store(data);
+        }
+        return data;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
+        }
+      });
+    this.inFlight.set(key, request);
+    return request;
   }
 
-  // Clean up expired entries
-  cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiry) {
-        this.cache.delete(key);
-      }
+  private async refreshFailed<T>(key: string, entry: CacheEntry<T>, error: unknown): Promise<CacheEntry<T>> {
+    if (!(error instanceof RateLimitError)) {
+      console.error(`Background refresh of ${key} failed:`, error);
+      return entry;
     }
+
+    // Keep serving the old data, without retrying, until the limit resets
+    const limited = { ...entry, rateLimitedUntil: new Date(error.resetAt).getTime() };
+    await this.write(key, limited);
+    console.warn(`Serving stale ${key.split(':')[0]} data until the GitHub rate limit resets at ${error.resetAt}`);
+    return limited;
+  }
+
+  private toResult<T>(entry: CacheEntry<T>, isStale: boolean): CachedResult<T> {
+    const { rateLimitedUntil } = entry;
+    return {
+      data: entry.data,
+      lastUpdated: new Date(entry.storedAt).toISOString(),
+      isStale,
+      ...(rateLimitedUntil !== undefined && Date.now() < rateLimitedUntil && {
+        rateLimitResetAt: new Date(rateLimitedUntil).toISOString(),
+      }),
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    this.inFlight.delete(key);
+    await this.store.delete(key);
+  }
+
+  // Drop every entry whose key starts with prefix (e.g. all `dashboard:` variants)
+  async deleteByPrefix(prefix: string): Promise<number> {
+    for (const key of Array.from(this.inFlight.keys())) {
+      if (key.startsWith(prefix)) this.inFlight.delete(key);
+    }
+    return this.store.deleteByPrefix(prefix);
+  }
+
+  /**
+   * Mark every entry under `prefix` as past its soft TTL without dropping it,
+   * so `withStaleCache` refreshes it on the next call but can still fall back
+   * to it if that refresh is rate limited.
+   */
+  async expireByPrefix(prefix: string): Promise<number> {
+    for (const key of Array.from(this.inFlight.keys())) {
+      if (key.startsWith(prefix)) this.inFlight.delete(key);
+    }
+
+    let expired = 0;
+    for (const key of await this.store.keys(prefix)) {
+      const entry = await this.read(key);
+      if (!entry || entry.freshUntil === 0) continue;
+      await this.write(key, { ...entry, freshUntil: 0 });
+      expired++;
+    }
+    return expired;
+  }
+
+  async clear(): Promise<void> {
+    this.inFlight.clear();
+    await this.store.clear();
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats, inFlight: this.inFlight.size, backend: this.store.name };
+  }
+
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0, coalesced: 0, stale: 0 };
+  }
+
+  // Clean up expired entries (rate-limited ones are kept as a fallback until the limit resets)
+  async cleanup(): Promise<void> {
+    await this.store.cleanup();
   }
 }
 
 // Global cache instance
-export const cache = new InMemoryCache();
+export const cache = new DashboardCache();
 
 // Cleanup expired entries every 5 minutes
 if (typeof window === 'undefined') {
-  setInterval(() => {
-    cache.cleanup();
+  const cleanupTimer = setInterval(() => {
+    cache.cleanup().catch(error => console.warn('Cache cleanup failed:', error));
   }, 5 * 60 * 1000);
+  // Don't keep the process (or a test run) alive just for cache cleanup
+  cleanupTimer.unref?.();
 }
\ No newline at end of file
@@ -0,0 +1,311 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { CacheBackendName } from './config';
+import { RedisClient } from './redis';
+
+export type CacheEntry<T = unknown> = {
+  data: T;
+  storedAt: number;
+  // Past freshUntil (the soft TTL) the entry is served stale while it refreshes; past staleUntil callers wait for a refresh
+  freshUntil: number;
+  staleUntil: number;
+  // When backends drop the entry; later than staleUntil only for entries kept as a rate-limit fallback
+  expiry: number;
+  // Set when a refresh was rate limited; the entry is kept, and no refresh is attempted, until then
+  rateLimitedUntil?: number;
+};
+
+/**
+ * Where `cache` keeps its entries. Backends only store and expire them; single
+ * flight, stale-while-revalidate and metrics live in `lib/cache.ts`.
+ */
+export interface CacheBackend {
+  readonly name: CacheBackendName;
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<number>;
+  keys(prefix: string): Promise<string[]>;
+  clear(): Promise<void>;
+  cleanup(): Promise<void>;
+}
+
+export function retainUntil(entry: CacheEntry): number {
+  return Math.max(entry.expiry, entry.rateLimitedUntil ?? 0);
+}
+
+// JSON drops Sets and Maps (e.g. from buildEmployeesSet and buildRepoAuthorRoleSets), so they're tagged on the way out
+const TYPE_TAG = '__cacheType';
+
+export function serializeCacheEntry(entry: CacheEntry): string {
+  return JSON.stringify(entry, (_key, value) => {
+    if (value instanceof Set) return { [TYPE_TAG]: 'Set', values: Array.from(value) };
+    if (value instanceof Map) return { [TYPE_TAG]: 'Map', entries: Array.from(value.entries()) };
+    return value;
+  });
+}
+
+export function deserializeCacheEntry<T>(text: string): CacheEntry<T> {
+  return JSON.parse(text, (_key, value) => {
+    if (value && typeof value === 'object' && TYPE_TAG in value) {
+      if (value[TYPE_TAG] === 'Set') return new Set(value.values);
+      if (value[TYPE_TAG] === 'Map') return new Map(value.entries);
+    }
+    return value;
+  });
+}
+
+// Entries are kept as-is, so callers share (and may patch) the same objects
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, CacheEntry<any>>();
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (entry && Date.now() > retainUntil(entry)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.entries.keys()).filter(key => key.startsWith(prefix));
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async cleanup(): Promise<void> {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (now > retainUntil(entry)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+// Keeps the readable start of the key in the file name so prefix deletes rarely need to open files
+const FILE_NAME_HEAD_LENGTH = 120;
+
+function encodeKeyPart(text: string): string {
+  return encodeURIComponent(text).replace(/[!'()*~]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * One JSON file per entry under CACHE_DIR, so cached data survives restarts of
+ * a single host. Writes go through a temp file and a rename, so a crash never
+ * leaves a half-written entry behind.
+ */
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'file';
+
+  constructor(private readonly dir: string) {}
+
+  private fileName(key: string): string {
+    const encoded = encodeKeyPart(key);
+    if (encoded.length <= FILE_NAME_HEAD_LENGTH) return `${encoded}.json`;
+
+    let head = '';
+    for (const char of key) {
+      const next = head + encodeKeyPart(char);
+      if (next.length > FILE_NAME_HEAD_LENGTH) break;
+      head = next;
+    }
+    return `${head}~${createHash('sha256').update(key).digest('hex').slice(0, 16)}.json`;
+  }
+
+  private async readFile<T>(file: string): Promise<{ key: string; entry: CacheEntry<T> } | undefined> {
+    try {
+      const text = await fs.readFile(join(this.dir, file), 'utf-8');
+      const newline = text.indexOf('\n');
+      return { key: JSON.parse(text.slice(0, newline)), entry: deserializeCacheEntry<T>(text.slice(newline + 1)) };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.dir)).filter(file => file.endsWith('.json'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async remove(file: string): Promise<void> {
+    await fs.rm(join(this.dir, file), { force: true });
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const file = this.fileName(key);
+    const stored = await this.readFile<T>(file);
+    // A different key can only share the file name through a hash collision
+    if (!stored || stored.key !== key) return undefined;
+    if (Date.now() > retainUntil(stored.entry)) {
+      await this.remove(file);
+      return undefined;
+    }
+    return stored.entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = join(this.dir, this.fileName(key));
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    // The key goes on its own first line so it can be checked without parsing the entry
+    await fs.writeFile(temp, `${JSON.stringify(key)}\n${serializeCacheEntry(entry)}`, 'utf-8');
+    await fs.rename(temp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.remove(this.fileName(key));
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const file of await this.files()) {
+      const name = file.slice(0, -'.json'.length);
+      const [head, hash] = name.split('~');
+      // Without a hash the name is the whole key; with one, the head is only its start
+      const keyStart = decodeURIComponent(head);
+      const matches = hash === undefined || prefix.length <= keyStart.length
+        ? keyStart.startsWith(prefix)
+        : (await this.readFile(file))?.key.startsWith(prefix) ?? false;
+      if (matches) {
+        await this.remove(file);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (const file of await this.files()) {
+      const [head, hash] = file.slice(0, -'.json'.length).split('~');
+      const key = hash === undefined ? decodeURIComponent(head) : (await this.readFile(file))?.key;
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all((await this.files()).map(file => this.remove(file)));
+  }
+
+  async cleanup(): Promise<void> {
+    const now = Date.now();
+    for (const file of await this.files()) {
+      const stored = await this.readFile(file).catch(() => undefined);
+      if (!stored || now > retainUntil(stored.entry)) {
+        await this.remove(file);
+      }
+    }
+  }
+}
+
+// Matches the key prefix literally in SCAN's glob syntax
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Entries as Redis strings under CACHE_REDIS_PREFIX, expiring on their own, so
+ * every instance of the dashboard (and every serverless cold start) shares them.
+ */
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+
+  constructor(private readonly client: RedisClient, private readonly keyPrefix: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const text = await this.client.command('GET', this.keyPrefix + key);
+    return typeof text === 'string' ? deserializeCacheEntry<T>(text) : undefined;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const ttlMs = retainUntil(entry) - Date.now();
+    if (ttlMs <= 0) {
+      await this.delete(key);
+      return;
+    }
+    await this.client.command('SET', this.keyPrefix + key, serializeCacheEntry(entry), 'PX', ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command('DEL', this.keyPrefix + key);
+  }
+
+  // Calls `onBatch` with each batch of full (namespaced) Redis keys starting with `prefix`
+  private async scan(prefix: string, onBatch: (keys: string[]) => Promise<void>): Promise<void> {
+    let cursor = '0';
+    do {
+      const reply = await this.client.command('SCAN', cursor, 'MATCH', `${escapeGlob(this.keyPrefix + prefix)}*`, 'COUNT', 100);
+      const [next, keys] = reply as [string, string[]];
+      if (keys.length > 0) await onBatch(keys);
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    await this.scan(prefix, async keys => {
+      deleted += (await this.client.command('DEL', ...keys)) as number;
+    });
+    return deleted;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const found: string[] = [];
+    await this.scan(prefix, async keys => {
+      found.push(...keys.map(key => key.slice(this.keyPrefix.length)));
+    });
+    return found;
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteByPrefix('');
+  }
+
+  // Redis expires entries itself
+  async cleanup(): Promise<void> {}
+}
+
+export function createCacheBackend(
+  name: CacheBackendName,
+  options: { dir: string; redisUrl: string; redisKeyPrefix: string }
+): CacheBackend {
+  switch (name) {
+    case 'file':
+      return new FileCacheBackend(resolve(process.cwd(), options.dir));
+    case 'redis':
+      return new RedisCacheBackend(new RedisClient(options.redisUrl), options.redisKeyPrefix);
+    default:
+      return new MemoryCacheBackend();
+  }
+}
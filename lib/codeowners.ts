@@ -0,0 +1,161 @@
+import { config } from './config';
+import { cache } from './cache';
+import { RateLimitError, getCodeownersFile, getPRChangedFiles } from './github';
+import { getTeamMembers } from './employees';
+import { isBotLogin } from './bots';
+import { hasAssignedReviewer } from './compute';
+import { PR } from './types';
+
+export type CodeownersRule = {
+  pattern: string;
+  owners: string[];   // `@user`, `@org/team` or email, as written
+  regex: RegExp;
+};
+
+const MAX_SUGGESTED_REVIEWERS = 3;
+// Changed-file lookups in flight per repo; a cold cache in a busy repo would otherwise trip secondary rate limits
+const PR_FILES_CONCURRENCY = 5;
+
+// Like Promise.all over `items`, but with at most `limit` calls running; stops starting new ones after a failure
+async function forEachWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      try {
+        await fn(items[next++]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Compile a CODEOWNERS pattern. It follows gitignore rules, with GitHub's
+ * exception that `dir/*` only matches files directly inside `dir`.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  // A slash at the start or in the middle anchors the pattern to the repo root
+  const anchored = pattern.slice(0, -1).includes('/');
+  const directoryOnly = pattern.endsWith('/');
+  const body = pattern.replace(/^\//, '').replace(/\/$/, '');
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      if (body[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // A pattern naming a directory owns everything below it
+  const suffix = directoryOnly ? '/.*' : body.endsWith('/*') ? '' : '(?:/.*)?';
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${suffix}$`);
+}
+
+export function parseCodeowners(text: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) continue;
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    try {
+      rules.push({ pattern, owners, regex: patternToRegExp(pattern) });
+    } catch {
+      // GitHub ignores lines it can't parse; so do we
+    }
+  }
+
+  return rules;
+}
+
+/** Owners of a path: the last matching rule wins, and a rule without owners un-owns the path. */
+export function ownersForPath(rules: CodeownersRule[], path: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(path)) return rules[i].owners;
+  }
+  return [];
+}
+
+async function getRepoCodeowners(owner: string, repo: string): Promise<CodeownersRule[]> {
+  // Cache the raw text; the compiled rules are cheap to rebuild
+  const text = await cache.withCache(`codeowners:${owner}/${repo}`.toLowerCase(), config.cache.ttlSeconds, () =>
+    getCodeownersFile(owner, repo)
+  );
+  return text ? parseCodeowners(text) : [];
+}
+
+// A push changes the files and bumps updatedAt, so the key never serves a stale list
+async function getCachedPRFiles(owner: string, repo: string, pr: PR): Promise<string[]> {
+  return cache.withCache(`pr-files:${owner}/${repo}#${pr.number}@${pr.updatedAt}`.toLowerCase(), config.cache.prDataTtlSeconds, () =>
+    getPRChangedFiles(owner, repo, pr.number)
+  );
+}
+
+async function expandOwner(codeOwner: string): Promise<string[]> {
+  const match = codeOwner.match(/^@([^/]+)(?:\/(.+))?$/);
+  if (!match) return []; // Email owners can't be mapped to a login
+  const [, login, team] = match;
+  return team ? getTeamMembers(login, team) : [login];
+}
+
+/**
+ * Suggest reviewers from CODEOWNERS for non-draft PRs nobody has been asked to
+ * review, ranked by how many of the changed files each person owns. Sets
+ * `suggestedReviewers` on those PRs in place. Best effort: anything but a rate
+ * limit just leaves the suggestions out.
+ */
+export async function addSuggestedReviewers(owner: string, repo: string, prs: PR[]): Promise<void> {
+  const unassigned = prs.filter(pr => !pr.isDraft && !hasAssignedReviewer(pr));
+  if (unassigned.length === 0) return;
+
+  try {
+    const rules = await getRepoCodeowners(owner, repo);
+    if (rules.length === 0) return;
+
+    await forEachWithConcurrency(unassigned, PR_FILES_CONCURRENCY, async pr => {
+      const files = await getCachedPRFiles(owner, repo, pr);
+
+      const ownersPerFile = files.map(path => ownersForPath(rules, path));
+      const codeOwners = Array.from(new Set(ownersPerFile.flat()));
+      const loginsByCodeOwner = new Map(
+        await Promise.all(codeOwners.map(async codeOwner => [codeOwner, await expandOwner(codeOwner)] as const))
+      );
+
+      // Someone owning a file both directly and through a team counts it once
+      const filesPerLogin = new Map<string, number>();
+      for (const fileOwners of ownersPerFile) {
+        const logins = new Set(fileOwners.flatMap(codeOwner => loginsByCodeOwner.get(codeOwner) || []));
+        for (const login of logins) {
+          if (login === pr.authorLogin || isBotLogin(login)) continue;
+          filesPerLogin.set(login, (filesPerLogin.get(login) || 0) + 1);
+        }
+      }
+
+      pr.suggestedReviewers = Array.from(filesPerLogin)
+        .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+        .slice(0, MAX_SUGGESTED_REVIEWERS)
+        .map(([login]) => login);
+    });
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error;
+    console.error(`Failed to suggest reviewers for ${owner}/${repo}:`, error);
+  }
+}
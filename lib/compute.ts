@@ -1,8 +1,11 @@
-import { PR, Review, KPIs, ReviewStatsResponse, Reviewer, CommunityReviewerStats, OrgMemberReviewerStats, BotReviewerStats, RepoAuthorRoleSets } from './types';
+import { PR, Review, FirstResponseType, CIStatus, ClosedPR, ClosedByType, KPIs, ReviewStatsResponse, Reviewer, SizeBucketReviewTime, TeamReviewLoad, CommunityReviewerStats, OrgMemberReviewerStats, BotReviewerStats, RepoAuthorRoleSets, FilterOptions } from './types';
 import { config } from './config';
-import { isEmployee, getAuthorType, isOrgMemberAssociation } from './employees';
-import { ReviewStatsData, CommunityPRReviewData, OrgMemberPRReviewData, BotPRReviewData } from './github';
+import { isEmployee, getAuthorType, isOrgMemberAssociation, isFirstTimeContributorAssociation } from './employees';
+import { ReviewStatsData, FirstReviewData, CommunityPRReviewData, OrgMemberPRReviewData, BotPRReviewData } from './github';
 import { isBotLogin } from './bots';
+import { formatRepoId, parseRepoId } from './githubHosts';
+import { SIZE_BUCKETS, sizeBucket } from './prSize';
+import { hasRequestedReviewer, requestedReviewerLogins } from './filters';
 
 // Minimum number of data points required for a meaningful median
 const MIN_REVIEWS_FOR_MEDIAN = 3;
@@ -20,30 +23,58 @@ export function median(arr: number[], minCount: number = 0): number | null {
   return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
 }
 
-export function computeFirsts(pr: any, employeesSet: Set<string>): {
+type Interaction = { login: string; at: string; type: FirstResponseType };
+
+function humanInteractions(pr: any): Interaction[] {
+  const reviews: Interaction[] = (pr.reviews?.nodes || []).map((review: any) => ({
+    login: review.author?.login, at: review.submittedAt, type: 'review',
+  }));
+  const issueComments: Interaction[] = (pr.comments?.nodes || []).map((comment: any) => ({
+    login: comment.author?.login, at: comment.createdAt, type: 'issue_comment',
+  }));
+  const reviewComments: Interaction[] = (pr.reviewThreads?.nodes || []).flatMap((thread: any) =>
+    (thread.comments?.nodes || []).map((comment: any) => ({
+      login: comment.author?.login, at: comment.createdAt, type: 'review_comment',
+    }))
+  );
+
+  return [...reviews, ...issueComments, ...reviewComments]
+    .filter(interaction => interaction.at && interaction.login && !isBotLogin(interaction.login))
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+/**
+ * First review, and first response from an employee or maintainer: a review,
+ * a conversation comment or an inline review comment, whichever came first.
+ * The PR author's own comments never count as a response.
+ */
+export function computeFirsts(
+  pr: any,
+  employeesSet: Set<string>,
+  repoAuthorRoleSets: RepoAuthorRoleSets = { maintainers: new Set(), collaborators: new Set() }
+): {
   firstHumanResponseAt?: string;
+  firstResponseType?: FirstResponseType;
   firstReviewAt?: string;
 } {
-  const reviews = pr.reviews?.nodes || [];
+  const interactions = humanInteractions(pr);
 
-  const sortedHumanReviews = reviews
-    .filter((review: any) => review.submittedAt && review.author?.login && !isBotLogin(review.author.login))
-    .sort((a: any, b: any) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+  const firstReviewAt = interactions.find(interaction => interaction.type === 'review')?.at;
 
-  const firstReviewAt = sortedHumanReviews[0]?.submittedAt;
-
-  const firstEmployeeReview = sortedHumanReviews.find((review: any) =>
-    isEmployee(review.author.login, employeesSet)
+  const authorLogin = pr.author?.login;
+  const firstResponse = interactions.find(interaction =>
+    interaction.login !== authorLogin &&
+    (isEmployee(interaction.login, employeesSet) || repoAuthorRoleSets.maintainers.has(interaction.login))
   );
-  const firstHumanResponseAt = firstEmployeeReview?.submittedAt;
 
-  return { firstHumanResponseAt, firstReviewAt };
+  return { firstHumanResponseAt: firstResponse?.at, firstResponseType: firstResponse?.type, firstReviewAt };
 }
 
 export function computeFlags(
   pr: any,
   firstHumanResponseAt?: string,
-  firstReviewAt?: string
+  firstReviewAt?: string,
+  isFirstTimeContributor: boolean = false
 ): {
   ageHours: number;
   needsFirstResponse: boolean;
@@ -55,7 +86,10 @@ export function computeFlags(
   const ageHours = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
   
   const needsFirstResponse = !firstHumanResponseAt;
-  const overdueFirstResponse = needsFirstResponse && ageHours > config.sla.firstResponseHours;
+  const firstResponseHours = isFirstTimeContributor
+    ? config.sla.firstTimeContributorResponseHours
+    : config.sla.firstResponseHours;
+  const overdueFirstResponse = needsFirstResponse && ageHours > firstResponseHours;
   const overdueFirstReview = !firstReviewAt && ageHours > config.sla.firstReviewHours;
   
   return {
@@ -66,13 +100,38 @@ export function computeFlags(
   };
 }
 
+/**
+ * Map the head commit's statusCheckRollup state onto CIStatus. EXPECTED is a
+ * required status that hasn't reported yet, so it counts as pending.
+ */
+export function ciStatusFromRollup(state: string | null | undefined): CIStatus | undefined {
+  switch (state) {
+    case 'SUCCESS':
+      return 'passing';
+    case 'FAILURE':
+    case 'ERROR':
+      return 'failing';
+    case 'PENDING':
+    case 'EXPECTED':
+      return 'pending';
+    default:
+      return undefined;
+  }
+}
+
 export function transformPR(
   rawPR: any,
   employeesSet: Set<string>,
   repoAuthorRoleSets: RepoAuthorRoleSets = { maintainers: new Set(), collaborators: new Set() }
 ): PR {
-  const { firstHumanResponseAt, firstReviewAt } = computeFirsts(rawPR, employeesSet);
-  const flags = computeFlags(rawPR, firstHumanResponseAt, firstReviewAt);
+  const authorLogin = rawPR.author?.login || 'unknown';
+  const authorAssociation = rawPR.authorAssociation;
+  const authorType = getAuthorType(authorLogin, employeesSet, authorAssociation, repoAuthorRoleSets);
+  // A FIRST_TIME_CONTRIBUTOR association alone isn't enough; a new employee or maintainer gets the regular SLA
+  const isFirstTimeContributor = authorType === 'community' && isFirstTimeContributorAssociation(authorAssociation);
+
+  const { firstHumanResponseAt, firstResponseType, firstReviewAt } = computeFirsts(rawPR, employeesSet, repoAuthorRoleSets);
+  const flags = computeFlags(rawPR, firstHumanResponseAt, firstReviewAt, isFirstTimeContributor);
   
   // Extract requested reviewers
   const requestedReviewers = {
@@ -98,31 +157,131 @@ export function transformPR(
   );
   const readyForReviewAt = readyForReviewEvent?.createdAt || rawPR.createdAt;
   
-  const authorLogin = rawPR.author?.login || 'unknown';
-  const authorAssociation = rawPR.authorAssociation;
-  
   return {
-    repo: `${rawPR.repository?.owner?.login || 'unknown'}/${rawPR.repository?.name || 'unknown'}`,
+    repo: formatRepoId(rawPR.repository?.owner?.login || 'unknown', rawPR.repository?.name || 'unknown'),
     number: rawPR.number,
     title: rawPR.title,
     url: rawPR.url,
     authorLogin,
     authorAssociation,
-    authorType: getAuthorType(authorLogin, employeesSet, authorAssociation, repoAuthorRoleSets),
+    authorType,
     isEmployeeAuthor: isEmployee(authorLogin, employeesSet) || isOrgMemberAssociation(authorAssociation),
+    isFirstTimeContributor,
     isDraft: rawPR.isDraft,
     createdAt: rawPR.createdAt,
     updatedAt: rawPR.updatedAt,
     readyForReviewAt,
     labels: rawPR.labels?.nodes?.map((label: any) => label.name) || [],
+    additions: rawPR.additions ?? 0,
+    deletions: rawPR.deletions ?? 0,
+    changedFiles: rawPR.changedFiles ?? 0,
+    size: sizeBucket(rawPR.additions, rawPR.deletions),
     requestedReviewers,
     reviews,
     firstHumanResponseAt,
+    firstResponseType,
     firstReviewAt,
     ...flags,
+    ciStatus: ciStatusFromRollup(rawPR.commits?.nodes?.[0]?.commit?.statusCheckRollup?.state),
+    mergeable: rawPR.mergeable || undefined,
+    mergeStateStatus: rawPR.mergeStateStatus || undefined,
+    truncated: Boolean(rawPR.truncatedConnections?.length),
+  };
+}
+
+/**
+ * Who closed an unmerged PR, from its ClosedEvent actor. Bots count as the
+ * stale action when the PR carries a stale label or the bot is named for it.
+ */
+export function classifyCloser(
+  closerLogin: string | undefined,
+  authorLogin: string,
+  labels: string[],
+  employeesSet: Set<string>,
+  repoAuthorRoleSets: RepoAuthorRoleSets = { maintainers: new Set(), collaborators: new Set() }
+): ClosedByType {
+  if (!closerLogin) return 'other';
+  if (isBotLogin(closerLogin)) {
+    return /stale/i.test(closerLogin) || labels.some(label => /stale/i.test(label)) ? 'stale' : 'bot';
+  }
+  if (closerLogin === authorLogin) return 'author';
+  if (isEmployee(closerLogin, employeesSet) || repoAuthorRoleSets.maintainers.has(closerLogin)) return 'employee';
+  return 'other';
+}
+
+export function transformClosedPR(
+  rawPR: any,
+  employeesSet: Set<string>,
+  repoAuthorRoleSets: RepoAuthorRoleSets = { maintainers: new Set(), collaborators: new Set() }
+): ClosedPR {
+  const authorLogin = rawPR.author?.login || 'unknown';
+  const labels: string[] = rawPR.labels?.nodes?.map((label: any) => label.name) || [];
+  const timeline: any[] = rawPR.timelineItems?.nodes || [];
+
+  // A PR closed, reopened and closed again has several ClosedEvents; the last one counts
+  const closedEvent = timeline.filter(item => item.__typename === 'ClosedEvent').pop();
+  const closerLogin = closedEvent?.actor?.login;
+
+  const hadHumanReview = timeline.some(item =>
+    item.__typename === 'PullRequestReview' &&
+    item.author?.login &&
+    item.author.login !== authorLogin &&
+    !isBotLogin(item.author.login)
+  );
+
+  const timeToCloseHours = (new Date(rawPR.closedAt).getTime() - new Date(rawPR.createdAt).getTime()) / (1000 * 60 * 60);
+
+  return {
+    repo: formatRepoId(rawPR.repository?.owner?.login || 'unknown', rawPR.repository?.name || 'unknown'),
+    number: rawPR.number,
+    title: rawPR.title,
+    url: rawPR.url,
+    authorLogin,
+    authorType: getAuthorType(authorLogin, employeesSet, rawPR.authorAssociation, repoAuthorRoleSets),
+    createdAt: rawPR.createdAt,
+    closedAt: rawPR.closedAt,
+    closedBy: classifyCloser(closerLogin, authorLogin, labels, employeesSet, repoAuthorRoleSets),
+    closedByLogin: closerLogin,
+    timeToCloseHours: Math.round(timeToCloseHours * 10) / 10,
+    hadHumanReview,
   };
 }
 
+// The team review settings filters need, from TEAM_REQUESTS_COUNT_AS_ASSIGNED and TEAM_REQUEST_LOAD
+export function teamReviewFilterOptions(): FilterOptions {
+  return { teamRequestsCountAsAssigned: config.teamReviews.countAsAssigned, teamRequestLoad: config.teamReviews.load };
+}
+
+/** Whether someone is on the hook to review: a requested user, or a requested team if TEAM_REQUESTS_COUNT_AS_ASSIGNED allows it. */
+export function hasAssignedReviewer(pr: PR): boolean {
+  return hasRequestedReviewer(pr, teamReviewFilterOptions());
+}
+
+/** Everyone a PR is waiting on; members of requested teams only count when TEAM_REQUEST_LOAD=members. */
+export function pendingReviewerLogins(pr: PR): string[] {
+  return requestedReviewerLogins(pr, teamReviewFilterOptions());
+}
+
+export function computeTeamReviewLoad(allPrs: PR[]): TeamReviewLoad[] {
+  const teams = new Map<string, TeamReviewLoad>();
+
+  allPrs.forEach(pr => {
+    const org = parseRepoId(pr.repo)?.owner;
+    if (!org) return;
+
+    pr.requestedReviewers.teams.forEach(slug => {
+      const name = `${org}/${slug}`;
+      const team = teams.get(name) || { name, pendingCount: 0, memberCount: 0 };
+      team.pendingCount += 1;
+      // Members exclude each PR's author, so keep the largest roster seen
+      team.memberCount = Math.max(team.memberCount, pr.requestedReviewers.teamMembers?.[slug]?.length ?? 0);
+      teams.set(name, team);
+    });
+  });
+
+  return Array.from(teams.values()).sort((a, b) => b.pendingCount - a.pendingCount || a.name.localeCompare(b.name));
+}
+
 export function computeKpis(allPrs: PR[]): KPIs {
   const communityPrs = allPrs.filter(pr => pr.authorType === 'community');
   const nonDraftPrs = allPrs.filter(pr => !pr.isDraft);
@@ -146,13 +305,13 @@ export function computeKpis(allPrs: PR[]): KPIs {
   // Calculate reviewer load
   const reviewerLoad: Record<string, number> = {};
   allPrs.forEach(pr => {
-    pr.requestedReviewers.users.forEach(reviewer => {
+    pendingReviewerLogins(pr).forEach(reviewer => {
       reviewerLoad[reviewer] = (reviewerLoad[reviewer] || 0) + 1;
     });
   });
   
   // Calculate compliance
-  const prsWithAssignedReviewers = nonDraftPrs.filter(pr => pr.requestedReviewers.users.length > 0);
+  const prsWithAssignedReviewers = nonDraftPrs.filter(hasAssignedReviewer);
   const assignedReviewerCompliancePct = nonDraftPrs.length > 0 
     ? prsWithAssignedReviewers.length / nonDraftPrs.length 
     : 0;
@@ -201,11 +360,7 @@ export function computeReviewerStats(
   // Calculate pending review counts from open PRs
   const pendingCounts: Record<string, number> = {};
   allPrs.forEach(pr => {
-    pr.requestedReviewers.users.forEach(reviewer => {
-      if (isBotLogin(reviewer)) {
-        return;
-      }
-
+    pendingReviewerLogins(pr).forEach(reviewer => {
       pendingCounts[reviewer] = (pendingCounts[reviewer] || 0) + 1;
     });
   });
@@ -306,13 +461,44 @@ export function computeReviewerStats(
   return reviewers;
 }
 
+/**
+ * Median time to first review per size bucket, over open PRs that have been
+ * reviewed and merged PRs first reviewed inside the stats window. Bot-authored
+ * PRs are left out; they'd skew the small buckets. `deriveReviewStats` already
+ * drops them from `mergedFirstReviews`.
+ */
+export function computeReviewTimeBySize(
+  allPrs: PR[],
+  mergedFirstReviews: FirstReviewData[] = []
+): SizeBucketReviewTime[] {
+  const times = new Map<string, number[]>(SIZE_BUCKETS.map(size => [size, []]));
+
+  for (const pr of allPrs) {
+    if (pr.authorType === 'bot' || !pr.firstReviewAt) continue;
+    const hours = (new Date(pr.firstReviewAt).getTime() - new Date(pr.readyForReviewAt).getTime()) / (1000 * 60 * 60);
+    if (hours >= 0) times.get(pr.size)?.push(hours);
+  }
+  for (const review of mergedFirstReviews) {
+    times.get(review.size)?.push(review.reviewTimeHours);
+  }
+
+  return SIZE_BUCKETS.map(size => {
+    const bucketTimes = times.get(size) || [];
+    return { size, prCount: bucketTimes.length, medianReviewTimeHours: median(bucketTimes, MIN_REVIEWS_FOR_MEDIAN) };
+  });
+}
+
 export function computeDashboardData(
   allPrs: PR[],
   employeesSet: Set<string>,
-  reviewStatsData: ReviewStatsData = { completedReviews: [], reviewRequests: [] }
+  reviewStatsData: ReviewStatsData = { completedReviews: [], reviewRequests: [] },
+  closedPrs: ClosedPR[] = []
 ): import('./types').DashboardData {
   const communityPrs = allPrs.filter(pr => pr.authorType === 'community');
+  const communityClosedPrs = closedPrs.filter(pr => pr.authorType === 'community');
+  const communityPrsClosedWithoutReview = communityClosedPrs.filter(pr => !pr.hadHumanReview).length;
   const nonDraftPrs = allPrs.filter(pr => !pr.isDraft);
+  const firstTimeContributorsWaiting = nonDraftPrs.filter(pr => pr.isFirstTimeContributor && pr.needsFirstResponse).length;
   
   // Calculate medians - use readyForReviewAt as start time (handles draft PRs correctly)
   const communityPrsWithResponse = communityPrs.filter(pr => pr.firstHumanResponseAt);
@@ -340,40 +526,66 @@ export function computeDashboardData(
   const reviewers = computeReviewerStats(allPrs, reviewStatsData, employeesSet);
   
   // Calculate compliance
-  const prsWithAssignedReviewers = nonDraftPrs.filter(pr => pr.requestedReviewers.users.length > 0);
+  const prsWithAssignedReviewers = nonDraftPrs.filter(hasAssignedReviewer);
   const assignedReviewerCompliancePct = nonDraftPrs.length > 0 
     ? (prsWithAssignedReviewers.length / nonDraftPrs.length) * 100
     : 0;
   
-  const prsWithoutReviewers = nonDraftPrs.filter(pr => pr.requestedReviewers.users.length === 0);
-  const totalPendingReviews = reviewers.reduce((sum, r) => sum + r.pendingCount, 0);
+  const prsWithoutReviewers = nonDraftPrs.filter(pr => !hasAssignedReviewer(pr));
+  const teams = computeTeamReviewLoad(allPrs);
+  // Team requests only add to the total when they aren't already spread over the members
+  const teamPendingReviews = config.teamReviews.load === 'team' ? teams.reduce((sum, t) => sum + t.pendingCount, 0) : 0;
+  const totalPendingReviews = reviewers.reduce((sum, r) => sum + r.pendingCount, 0) + teamPendingReviews;
   const activeReviewers = reviewers.filter(r => r.pendingCount > 0 || r.completedTotal > 0).length;
   
+  const medianResponseTimeHours = median(tffrTimes);
+  const medianReviewTimeHours = median(ttfrTimes);
+  const medianCommunityTimeToCloseHours = median(communityClosedPrs.map(pr => pr.timeToCloseHours));
+
   return {
     kpis: {
       openCommunityPrs: communityPrs.length,
       communityPrPercentage: allPrs.length > 0 ? `${Math.round((communityPrs.length / allPrs.length) * 100)}%` : '0%',
-      medianResponseTime: formatTime(median(tffrTimes)),
-      medianReviewTime: formatTime(median(ttfrTimes)),
+      medianResponseTime: formatTime(medianResponseTimeHours),
+      medianReviewTime: formatTime(medianReviewTimeHours),
       reviewerCompliance: `${Math.round(assignedReviewerCompliancePct)}%`,
       pendingReviews: totalPendingReviews,
       activeReviewers: activeReviewers,
       prsWithoutReviewers: prsWithoutReviewers.length,
+      communityPrsClosedWithoutReview,
+      medianCommunityTimeToClose: formatTime(medianCommunityTimeToCloseHours),
+      firstTimeContributorsWaiting,
+    },
+    metrics: {
+      openCommunityPrs: communityPrs.length,
+      communityPrPct: allPrs.length > 0 ? (communityPrs.length / allPrs.length) * 100 : 0,
+      medianResponseTimeHours,
+      medianReviewTimeHours,
+      reviewerCompliancePct: assignedReviewerCompliancePct,
+      pendingReviews: totalPendingReviews,
+      activeReviewers,
+      prsWithoutReviewers: prsWithoutReviewers.length,
+      communityPrsClosedWithoutReview,
+      medianCommunityTimeToCloseHours,
+      firstTimeContributorsWaiting,
     },
+    reviewTimeBySize: computeReviewTimeBySize(allPrs, reviewStatsData.firstReviews),
     prs: allPrs,
+    closedPrs,
     reviewers: reviewers,
+    teams,
     lastUpdated: new Date().toISOString(),
   };
 }
 
 export function computeReviewStats(allPrs: PR[]): ReviewStatsResponse {
   const nonDraftPrs = allPrs.filter(pr => !pr.isDraft);
-  const prsWithoutReviewers = nonDraftPrs.filter(pr => pr.requestedReviewers.users.length === 0);
+  const prsWithoutReviewers = nonDraftPrs.filter(pr => !hasAssignedReviewer(pr));
   
   // Count pending review requests
   const reviewerCounts: Record<string, number> = {};
   allPrs.forEach(pr => {
-    pr.requestedReviewers.users.forEach(reviewer => {
+    pendingReviewerLogins(pr).forEach(reviewer => {
       reviewerCounts[reviewer] = (reviewerCounts[reviewer] || 0) + 1;
     });
   });
@@ -1,31 +1,116 @@
+import { TeamRequestLoad } from './types';
+
+export type GitHubMode = 'live' | 'record' | 'replay';
+
+// Where cache entries live: in this process only, in files under CACHE_DIR, or in Redis
+export type CacheBackendName = 'memory' | 'file' | 'redis';
+
 export const config = {
   github: {
-    token: process.env.GITHUB_TOKEN || '',
+    // Personal access tokens to rotate between; falls back to GITHUB_TOKEN alone
+    tokens: (process.env.GITHUB_TOKENS || process.env.GITHUB_TOKEN || '')
+      .split(',')
+      .map(s => s.trim())
+      .filter(Boolean),
+    webhookSecret: process.env.GITHUB_WEBHOOK_SECRET || '',
+    // 'record' saves every GitHub response under fixturesDir; 'replay' serves them back with no network
+    mode: (['record', 'replay'].includes(process.env.GITHUB_MODE || '') ? process.env.GITHUB_MODE : 'live') as GitHubMode,
+    fixturesDir: process.env.GITHUB_FIXTURES_DIR || 'fixtures/github',
+    // Point these at a GitHub Enterprise Server instance (https://HOST/api/v3, https://HOST/api/graphql)
+    // to run the whole dashboard against it
+    apiUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
+    graphqlUrl: process.env.GITHUB_GRAPHQL_URL || '',   // Defaults to `${apiUrl}/graphql`
+    // Optional second instance tracked alongside the default one
+    enterprise: {
+      url: process.env.GITHUB_ENTERPRISE_URL || '',     // e.g. https://ghe.example.com
+      token: process.env.GITHUB_ENTERPRISE_TOKEN || '',
+      orgs: (process.env.GITHUB_ENTERPRISE_ORGS || '').split(',').map(s => s.trim()).filter(Boolean),
+    },
+    // GitHub App credentials; when set they take precedence over GITHUB_TOKEN
+    app: {
+      appId: process.env.GITHUB_APP_ID || '',
+      // PEM contents; escaped newlines are allowed so the key fits on one env line
+      privateKey: (process.env.GITHUB_APP_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+      // Optional: skip the per-org installation lookup and use this installation everywhere
+      installationId: process.env.GITHUB_APP_INSTALLATION_ID || '',
+    },
   },
   orgs: (process.env.ORGS || 'all-hands-ai,openhands').split(',').map(s => s.trim()),
   repos: {
+    // Globs over owner/name (`OpenHands/*`, `*/docs`); when set, only matching repos are tracked.
+    // Entries without a wildcard are tracked even if they aren't in one of ORGS
     include: process.env.REPOS_INCLUDE
-      ? process.env.REPOS_INCLUDE.split(',').map(s => s.trim())
+      ? process.env.REPOS_INCLUDE.split(',').map(s => s.trim()).filter(Boolean)
       : [],
     exclude: process.env.REPOS_EXCLUDE 
-      ? process.env.REPOS_EXCLUDE.split(',').map(s => s.trim())
+      ? process.env.REPOS_EXCLUDE.split(',').map(s => s.trim()).filter(Boolean)
       : [],
+    includeForks: process.env.REPOS_INCLUDE_FORKS !== 'false',
+    includeArchived: process.env.REPOS_INCLUDE_ARCHIVED === 'true',
+    // Discover private repos the token can see; only viewers with an internal access token get their PRs
+    includePrivate: process.env.REPOS_INCLUDE_PRIVATE === 'true',
+    // Only track repos tagged with at least one of these topics
+    topics: (process.env.REPOS_TOPICS || '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean),
+    // Org repo lists rarely change, so discovery is cached much longer than PR data
+    discoveryTtlSeconds: parseInt(process.env.REPO_DISCOVERY_TTL_SECONDS || '3600'),
+  },
+  access: {
+    // Shared secrets that unlock the internal view (private repos), sent as a bearer token or set as a cookie via /api/access
+    internalTokens: (process.env.INTERNAL_ACCESS_TOKENS || '').split(',').map(s => s.trim()).filter(Boolean),
   },
   sla: {
     firstResponseHours: parseInt(process.env.SLA_HOURS_FIRST_RESPONSE || '72'),
     firstReviewHours: parseInt(process.env.SLA_HOURS_FIRST_REVIEW || '144'),
+    // Stricter first-response SLA for PRs from people who have never contributed to the repo
+    firstTimeContributorResponseHours: parseInt(process.env.SLA_HOURS_FIRST_TIME_CONTRIBUTOR || '24'),
+  },
+  teamReviews: {
+    // Whether a PR requested only from a team counts as having a reviewer for compliance and "PRs Without Reviewers"
+    countAsAssigned: process.env.TEAM_REQUESTS_COUNT_AS_ASSIGNED !== 'false',
+    load: (process.env.TEAM_REQUEST_LOAD === 'team' ? 'team' : 'members') as TeamRequestLoad,
   },
   cache: {
+    backend: (['file', 'redis'].includes(process.env.CACHE_BACKEND || '') ? process.env.CACHE_BACKEND : 'memory') as CacheBackendName,
+    dir: process.env.CACHE_DIR || '.data/cache',
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    // Namespaces every key, so a shared Redis can hold other data and clearing the cache leaves it alone
+    redisKeyPrefix: process.env.CACHE_REDIS_PREFIX ?? 'pr-dashboard:',
     ttlSeconds: parseInt(process.env.CACHE_TTL_SECONDS || '120'),
+    // Dashboard data older than CACHE_TTL_SECONDS is served stale, while it refreshes in the background, up to this age
+    staleTtlSeconds: parseInt(process.env.CACHE_STALE_TTL_SECONDS || '3600'),
+    // Per-repo PR data; raise this when webhooks keep it current
+    prDataTtlSeconds: parseInt(process.env.PR_DATA_TTL_SECONDS || process.env.CACHE_TTL_SECONDS || '120'),
+  },
+  sync: {
+    // 'incremental' refetches only PRs updated since the last sync; 'full' refetches every open PR
+    mode: (process.env.SYNC_MODE === 'incremental' ? 'incremental' : 'full') as 'incremental' | 'full',
+    fullResyncMinutes: parseInt(process.env.FULL_RESYNC_MINUTES || '60'),
+  },
+  snapshots: {
+    dir: process.env.SNAPSHOT_DIR || '.data/snapshots',
+    intervalMinutes: parseInt(process.env.SNAPSHOT_INTERVAL_MINUTES || '60'),  // 0 disables snapshots
+  },
+  requests: {
+    // At least one attempt; a non-numeric value would otherwise never count as the last one and retry forever
+    maxAttempts: Math.max(1, parseInt(process.env.GITHUB_MAX_ATTEMPTS || '3') || 3),
+    retryBaseDelayMs: parseInt(process.env.GITHUB_RETRY_BASE_DELAY_MS || '500'),
+    // Longer waits (e.g. a rate limit resetting in 40 minutes) fail fast instead
+    maxRetryDelayMs: parseInt(process.env.GITHUB_MAX_RETRY_DELAY_MS || '30000'),
+    timeoutMs: parseInt(process.env.GITHUB_REQUEST_TIMEOUT_MS || '30000'),
   },
   limits: {
     maxPrPagesPerRepo: parseInt(process.env.MAX_PR_PAGES_PER_REPO || '10'),
+    // Follow-up pages per nested PR connection (reviews, timeline items, ...) before marking it truncated
+    maxNestedPages: parseInt(process.env.MAX_NESTED_PAGES || '5'),
+    // Merged/closed PR paging stops at the stats window's start date; this only guards against runaway paging
+    maxWindowPages: parseInt(process.env.MAX_WINDOW_PAGES || '40'),
   },
 };
 
 export function validateConfig() {
-  if (!config.github.token) {
-    throw new Error('GITHUB_TOKEN environment variable is required');
+  const hasApp = Boolean(config.github.app.appId && config.github.app.privateKey);
+  if (config.github.tokens.length === 0 && !hasApp && config.github.mode !== 'replay') {
+    throw new Error('GITHUB_TOKEN (or GITHUB_TOKENS) or GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY environment variables are required');
   }
   
   if (config.orgs.length === 0) {
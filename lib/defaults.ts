@@ -1,7 +0,0 @@
-export const DEFAULT_REPOS = [
-  'OpenHands/OpenHands',
-  'OpenHands/software-agent-sdk',
-  'OpenHands/OpenHands-CLI',
-  'OpenHands/docs',
-  'OpenHands/benchmarks',
-];
@@ -2,8 +2,8 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import { config } from './config';
 import { cache } from './cache';
-import { RateLimitError, getOrgMembersGraphQL, getOrgMembersREST, getRepoCollaboratorsREST } from './github';
-import { EmployeeOverrides, LoginOverrides, MaintainerOverrides, RepoAuthorRoleSets } from './types';
+import { RateLimitError, getOrgMembersGraphQL, getOrgMembersREST, getRepoCollaboratorsREST, getTeamMembersGraphQL } from './github';
+import { EmployeeOverrides, LoginOverrides, MaintainerOverrides, PR, RepoAuthorRoleSets } from './types';
 import { isBotLogin } from './bots';
 
 function normalizeOverrides(data: unknown): LoginOverrides {
@@ -92,7 +92,8 @@ export async function buildMaintainersSet(): Promise<Set<string>> {
 export async function buildRepoAuthorRoleSets(owner: string, repo: string): Promise<RepoAuthorRoleSets> {
   const cacheKey = `repo-author-roles:${owner}/${repo}`;
 
-  return cache.withCache(cacheKey, config.cache.ttlSeconds, async () => {
+  // Per-repo data, cached like the repo's PRs rather than with the dashboard
+  return cache.withCache(cacheKey, config.cache.prDataTtlSeconds, async () => {
     const maintainersSet = await buildMaintainersSet();
     let collaborators: string[] = [];
 
@@ -110,6 +111,34 @@ export async function buildRepoAuthorRoleSets(owner: string, repo: string): Prom
   });
 }
 
+// Members of an org team; empty when the team can't be read (unknown slug, or a token without read:org)
+export async function getTeamMembers(org: string, slug: string): Promise<string[]> {
+  const cacheKey = `team-members:${org}/${slug}`.toLowerCase();
+
+  return cache.withCache(cacheKey, config.cache.ttlSeconds, async () => {
+    try {
+      return await getTeamMembersGraphQL(org, slug);
+    } catch (error) {
+      if (error instanceof RateLimitError) throw error;
+      console.error(`Failed to fetch members of team ${org}/${slug}:`, error);
+      return [];
+    }
+  });
+}
+
+// Resolve each requested team to its members, leaving out the PR's author, who can't review their own PR
+export async function expandRequestedTeams(org: string, prs: PR[]): Promise<void> {
+  await Promise.all(prs.map(async pr => {
+    const { teams } = pr.requestedReviewers;
+    if (teams.length === 0) return;
+
+    const members = await Promise.all(teams.map(slug => getTeamMembers(org, slug)));
+    pr.requestedReviewers.teamMembers = Object.fromEntries(
+      teams.map((slug, i) => [slug, members[i].filter(login => login !== pr.authorLogin)])
+    );
+  }));
+}
+
 export function isEmployee(login: string, employeesSet: Set<string>): boolean {
   return employeesSet.has(login);
 }
@@ -120,6 +149,11 @@ export function isOrgMemberAssociation(authorAssociation?: string): boolean {
   return authorAssociation === 'MEMBER' || authorAssociation === 'OWNER';
 }
 
+// GitHub's associations for someone whose first contribution to the repo (or to GitHub) this is
+export function isFirstTimeContributorAssociation(authorAssociation?: string): boolean {
+  return authorAssociation === 'FIRST_TIME_CONTRIBUTOR' || authorAssociation === 'FIRST_TIMER';
+}
+
 export function getAuthorType(
   authorLogin: string,
   employeesSet: Set<string>,
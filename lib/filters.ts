@@ -0,0 +1,216 @@
+import { isBotLogin } from './bots';
+import { STATS_WINDOW_LABELS } from './statsWindow';
+import { FilterOptions, FilterState, PR, StatsWindowKey } from './types';
+
+// Shared by the dashboard route and the page, so nothing here may read config (or anything else server-only)
+
+export const DEFAULT_FILTERS: FilterState = {
+  repositories: [],  // All tracked repositories
+  labels: [],
+  ageRange: 'all',   // All Time - no filtering
+  status: 'all',
+  noReviewers: false,
+  firstTimeContributors: false,
+  limit: 'all',
+  draftStatus: 'all',
+  authorType: 'all',
+  reviewer: 'all',
+  ci: 'all',
+  conflicts: 'all',
+};
+
+// Matches the TEAM_REQUESTS_COUNT_AS_ASSIGNED and TEAM_REQUEST_LOAD defaults
+export const DEFAULT_FILTER_OPTIONS: FilterOptions = {
+  teamRequestsCountAsAssigned: true,
+  teamRequestLoad: 'members',
+};
+
+const AGE_RANGES: Record<string, [number, number]> = {
+  '0-24': [0, 24],           // 0-24 hours
+  '2-days': [0, 48],         // Last 2 days (0-48 hours)
+  '3-days': [0, 72],         // Last 3 days (0-72 hours)
+  '7-days': [0, 168],        // Last 7 days (0-168 hours)
+  '30-days': [0, 720],       // Last 30 days (0-720 hours)
+};
+
+const isSet = (value: string | undefined): value is string => Boolean(value) && value !== 'all';
+
+function splitList(value: string | null): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(item => item) : [];
+}
+
+/**
+ * The filters in a dashboard query string. Missing params take their
+ * DEFAULT_FILTERS value; an unknown `window` is left out, so callers that
+ * must reject it (the route) read the raw param instead.
+ */
+export function parseFilterState(searchParams: URLSearchParams): FilterState {
+  const get = (name: string, fallback: string = 'all') => searchParams.get(name) || fallback;
+  const windowParam = searchParams.get('window');
+
+  return {
+    repositories: splitList(searchParams.get('repos')),
+    labels: splitList(searchParams.get('labels')),
+    ageRange: get('age'),
+    status: get('status'),
+    noReviewers: searchParams.get('noReviewers') === 'true',
+    firstTimeContributors: searchParams.get('firstTime') === 'true',
+    limit: get('limit'),
+    draftStatus: get('draftStatus'),
+    authorType: get('authorType'),
+    reviewer: get('reviewer'),
+    ci: get('ci'),
+    conflicts: get('conflicts'),
+    ...(windowParam && Object.prototype.hasOwnProperty.call(STATS_WINDOW_LABELS, windowParam) && {
+      window: windowParam as StatsWindowKey,
+      ...(windowParam === 'custom' && {
+        windowFrom: searchParams.get('from') || undefined,
+        windowTo: searchParams.get('to') || undefined,
+      }),
+    }),
+  };
+}
+
+/** The inverse of `parseFilterState`; filters at their defaults are left out of the query string. */
+export function serializeFilterState(filters: FilterState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.repositories.length > 0) params.set('repos', filters.repositories.join(','));
+  if (filters.labels.length > 0) params.set('labels', filters.labels.join(','));
+  if (isSet(filters.ageRange)) params.set('age', filters.ageRange);
+  if (isSet(filters.status)) params.set('status', filters.status);
+  if (filters.noReviewers) params.set('noReviewers', 'true');
+  if (filters.firstTimeContributors) params.set('firstTime', 'true');
+  if (isSet(filters.limit)) params.set('limit', filters.limit);
+  if (isSet(filters.draftStatus)) params.set('draftStatus', filters.draftStatus);
+  if (isSet(filters.authorType)) params.set('authorType', filters.authorType);
+  if (isSet(filters.reviewer)) params.set('reviewer', filters.reviewer);
+  if (isSet(filters.ci)) params.set('ci', filters.ci);
+  if (isSet(filters.conflicts)) params.set('conflicts', filters.conflicts);
+  if (filters.window) {
+    params.set('window', filters.window);
+    if (filters.window === 'custom') {
+      if (filters.windowFrom) params.set('from', filters.windowFrom);
+      if (filters.windowTo) params.set('to', filters.windowTo);
+    }
+  }
+
+  return params;
+}
+
+/** A requested user, or a requested team when `teamRequestsCountAsAssigned`. */
+export function hasRequestedReviewer(pr: PR, options: FilterOptions): boolean {
+  const { users, teams } = pr.requestedReviewers;
+  return users.length > 0 || (options.teamRequestsCountAsAssigned && teams.length > 0);
+}
+
+/** Requested users plus, under the `members` team request load, requested teams' members; never bots. */
+export function requestedReviewerLogins(pr: PR, options: FilterOptions): string[] {
+  const logins = new Set(pr.requestedReviewers.users);
+  if (options.teamRequestLoad === 'members') {
+    Object.values(pr.requestedReviewers.teamMembers || {}).forEach(members => members.forEach(login => logins.add(login)));
+  }
+  return Array.from(logins).filter(login => !isBotLogin(login));
+}
+
+// Team owners come from the repo id (owner/repo or host/owner/repo)
+function repoOwner(repo: string): string | undefined {
+  return repo.split('/').slice(-2)[0];
+}
+
+/** Reviewer filter values for `prs`: requested people and `org/slug` teams, sorted case-insensitively. */
+export function reviewerFilterValues(prs: PR[]): string[] {
+  const reviewers = new Set<string>();
+  prs.forEach(pr => {
+    pr.requestedReviewers.users.forEach(login => reviewers.add(login));
+    pr.requestedReviewers.teams.forEach(slug => reviewers.add(`${repoOwner(pr.repo)}/${slug}`));
+  });
+  return Array.from(reviewers).sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+}
+
+/**
+ * The PRs of `prs` that match every filter, in their original order, cut to
+ * `limit`. Pure, so the same PRs can be re-filtered without refetching, on the
+ * server over the cached dashboard and in the browser as filters change.
+ */
+export function applyFilters(prs: PR[], filters: FilterState, options: FilterOptions): PR[] {
+  let filteredPrs = prs;
+
+  if (filters.labels.length > 0) {
+    const labels = filters.labels.map(label => label.toLowerCase());
+    filteredPrs = filteredPrs.filter(pr =>
+      pr.labels.some(label => labels.includes(label.toLowerCase()))
+    );
+  }
+
+  if (isSet(filters.authorType)) {
+    filteredPrs = filteredPrs.filter(pr => pr.authorType === filters.authorType);
+  }
+
+  const range = AGE_RANGES[filters.ageRange];
+  if (range) {
+    filteredPrs = filteredPrs.filter(pr => pr.ageHours >= range[0] && pr.ageHours < range[1]);
+  }
+
+  if (isSet(filters.status)) {
+    filteredPrs = filteredPrs.filter(pr => {
+      switch (filters.status) {
+        case 'needs-review':
+          return pr.needsFirstResponse || (!pr.firstReviewAt && !pr.isDraft);
+        case 'changes-requested':
+          return pr.reviews.some(review => review.state === 'CHANGES_REQUESTED');
+        case 'approved':
+          return pr.reviews.some(review => review.state === 'APPROVED');
+        default:
+          return true;
+      }
+    });
+  }
+
+  if (filters.noReviewers) {
+    // Matches the "PRs Without Reviewers" KPI
+    filteredPrs = filteredPrs.filter(pr => !hasRequestedReviewer(pr, options));
+  }
+
+  if (filters.firstTimeContributors) {
+    filteredPrs = filteredPrs.filter(pr => pr.isFirstTimeContributor);
+  }
+
+  const reviewer = filters.reviewer;
+  if (isSet(reviewer)) {
+    filteredPrs = filteredPrs.filter(pr => {
+      // A person (directly or through a team, per TEAM_REQUEST_LOAD) or a team as `org/slug`
+      const [teamOrg, teamSlug] = reviewer.split('/');
+      if (teamSlug) {
+        return repoOwner(pr.repo) === teamOrg && pr.requestedReviewers.teams.includes(teamSlug);
+      }
+      return requestedReviewerLogins(pr, options).includes(reviewer);
+    });
+  }
+
+  if (filters.draftStatus === 'drafts') {
+    filteredPrs = filteredPrs.filter(pr => pr.isDraft);
+  } else if (filters.draftStatus === 'final') {
+    filteredPrs = filteredPrs.filter(pr => !pr.isDraft);
+  }
+
+  // PRs without any checks match none of the CI states
+  if (isSet(filters.ci)) {
+    filteredPrs = filteredPrs.filter(pr => pr.ciStatus === filters.ci);
+  }
+
+  if (filters.conflicts === 'true' || filters.conflicts === 'false') {
+    const wantConflicts = filters.conflicts === 'true';
+    filteredPrs = filteredPrs.filter(pr => (pr.mergeable === 'CONFLICTING') === wantConflicts);
+  }
+
+  // Last, so it limits the final results
+  if (isSet(filters.limit)) {
+    const limit = parseInt(filters.limit, 10);
+    if (!isNaN(limit) && limit > 0) {
+      filteredPrs = filteredPrs.slice(0, limit);
+    }
+  }
+
+  return filteredPrs;
+}
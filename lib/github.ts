@@ -1,37 +1,95 @@
 import { config } from './config';
-import { GitHubRateLimit } from './types';
+import { GitHubRateLimit, SizeBucket } from './types';
 import { isBotLogin } from './bots';
+import { sizeBucket } from './prSize';
+import { getGitHubToken, recordRateLimit, canRotateToken } from './githubAuth';
+import { GitHubAPIError, RateLimitError } from './githubErrors';
+import { hostForOwner } from './githubHosts';
+import { fetchWithRecording } from './githubRecorder';
 
-export class GitHubAPIError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public rateLimit?: GitHubRateLimit
-  ) {
-    super(message);
-    this.name = 'GitHubAPIError';
-  }
+// Errors live in their own module so githubAuth can throw them without a circular import
+export { GitHubAPIError, RateLimitError } from './githubErrors';
+
+// Transient server-side failures worth retrying; other 4xx/5xx responses are fatal
+const RETRIABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export class RateLimitError extends Error {
-  constructor(public readonly resetAt: string) {
-    super('GitHub API rate limit exceeded');
-    this.name = 'RateLimitError';
+// Exponential backoff with jitter so parallel repo fetches don't retry in lockstep
+function backoffDelayMs(attempt: number): number {
+  const ceiling = Math.min(config.requests.maxRetryDelayMs, config.requests.retryBaseDelayMs * 2 ** (attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// `Retry-After` is either a number of seconds or an HTTP date
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * `fetch` with GITHUB_REQUEST_TIMEOUT_MS covering the whole exchange: the body
+ * is read before the timer stops, so a response that stalls mid-body times out
+ * (and is retried) like one that never starts.
+ */
+async function fetchWithTimeout(url: string, options: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.requests.timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...options, signal: controller.signal });
+    if (!response.body) return response;
+    // Aborting errors the body stream, so a stalled read rejects when the timer fires
+    const body = await response.arrayBuffer();
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new GitHubAPIError(`GitHub API request timed out after ${config.requests.timeoutMs}ms`, 408);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
   }
 }
 
-async function fetchGitHub(url: string, options: RequestInit = {}): Promise<Response> {
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${config.github.token}`,
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'OpenHands-PR-Dashboard/1.0',
-      ...options.headers,
-    },
-  });
+/**
+ * Make one logical request with `token`, retrying network errors, timeouts,
+ * 5xx responses and secondary rate limits (403/429 with `Retry-After`) up to
+ * GITHUB_MAX_ATTEMPTS times. A primary rate limit is only waited out when it
+ * resets soon and there's no other pooled token to rotate to.
+ */
+async function requestGitHub(url: string, options: RequestInit, token: string): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    const isLastAttempt = attempt >= config.requests.maxAttempts;
+
+    const requestOptions: RequestInit = {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Accept': 'application/vnd.github.v3+json',
+        'User-Agent': 'OpenHands-PR-Dashboard/1.0',
+        ...options.headers,
+      },
+    };
+
+    let response: Response;
+    try {
+      response = await fetchWithRecording(url, requestOptions, () => fetchWithTimeout(url, requestOptions));
+    } catch (err) {
+      // A missing fixture won't appear on retry
+      if (isLastAttempt || config.github.mode === 'replay') throw err;
+      await sleep(backoffDelayMs(attempt));
+      continue;
+    }
 
-  if (!response.ok) {
     const remainingHeader = response.headers.get('x-ratelimit-remaining');
     const resetHeader     = response.headers.get('x-ratelimit-reset');
     const rateLimit = remainingHeader != null
@@ -41,52 +99,121 @@ async function fetchGitHub(url: string, options: RequestInit = {}): Promise<Resp
         }
       : undefined;
 
-    if ((response.status === 403 || response.status === 429) && rateLimit?.remaining === 0) {
+    if (rateLimit) {
+      recordRateLimit(token, rateLimit);
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    const retryAfter = retryAfterMs(response);
+    const isRateLimitStatus = response.status === 403 || response.status === 429;
+
+    if (isRateLimitStatus && rateLimit?.remaining === 0) {
+      const untilReset = retryAfter ?? Math.max(0, new Date(rateLimit.resetAt).getTime() - Date.now());
+      if (!isLastAttempt && untilReset <= config.requests.maxRetryDelayMs && !canRotateToken(token)) {
+        await sleep(untilReset);
+        continue;
+      }
       throw new RateLimitError(rateLimit.resetAt);
     }
 
+    // Secondary rate limits come with Retry-After (403) or as a bare 429
+    if ((isRateLimitStatus && retryAfter != null) || response.status === 429) {
+      const delay = retryAfter ?? backoffDelayMs(attempt);
+      if (!isLastAttempt && delay <= config.requests.maxRetryDelayMs) {
+        await sleep(delay);
+        continue;
+      }
+      throw new RateLimitError(new Date(Date.now() + delay).toISOString());
+    }
+
+    if (RETRIABLE_STATUSES.has(response.status) && !isLastAttempt) {
+      // A server asking to come back much later (e.g. Retry-After: 3600) fails now rather than stalling the request
+      const delay = retryAfter ?? backoffDelayMs(attempt);
+      if (delay <= config.requests.maxRetryDelayMs) {
+        await sleep(delay);
+        continue;
+      }
+    }
+
     throw new GitHubAPIError(
       `GitHub API error: ${response.status} ${response.statusText}`,
       response.status,
       rateLimit
     );
   }
+}
 
-  return response;
+/**
+ * Run `request` with the best available token for `owner`. A RateLimitError
+ * marks that token exhausted and retries with the next one in the pool; it
+ * only reaches the caller once every token is exhausted.
+ */
+async function withGitHubToken<T>(owner: string | undefined, request: (token: string) => Promise<T>): Promise<T> {
+  const tried = new Set<string>();
+
+  for (;;) {
+    const token = await getGitHubToken(owner);
+    try {
+      return await request(token);
+    } catch (err) {
+      if (!(err instanceof RateLimitError)) throw err;
+      recordRateLimit(token, { remaining: 0, resetAt: err.resetAt });
+      if (!canRotateToken(token) || tried.has(token)) throw err;
+      tried.add(token);
+    }
+  }
+}
+
+// `path` is relative to the REST API root of the instance `owner` lives on, which
+// also selects the credentials (App installation, pooled token or enterprise token)
+async function fetchGitHub(path: string, options: RequestInit = {}, owner?: string): Promise<Response> {
+  const url = `${hostForOwner(owner).apiUrl}${path}`;
+  return withGitHubToken(owner, token => requestGitHub(url, options, token));
 }
 
 export async function graphql<T>(query: string, variables: Record<string, any> = {}): Promise<T & { rateLimit?: GitHubRateLimit }> {
-  const response = await fetchGitHub('https://api.github.com/graphql', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ query, variables }),
-  });
+  // Repo queries take $owner and org queries take $login; either picks the host and credentials
+  const owner = variables.owner ?? variables.login;
+  return withGitHubToken(owner, async token => {
+    const response = await requestGitHub(hostForOwner(owner).graphqlUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query, variables }),
+    }, token);
+
+    const result = await response.json();
+
+    if (result.errors) {
+      const isRateLimit = result.errors.some(
+        (e: any) => e.type === 'RATE_LIMITED' || /rate limit/i.test(e.message ?? '')
+      );
+      if (isRateLimit) {
+        const resetHeader = response.headers.get('x-ratelimit-reset');
+        const resetAt = resetHeader
+          ? new Date(parseInt(resetHeader) * 1000).toISOString()
+          : new Date(Date.now() + 3_600_000).toISOString();
+        throw new RateLimitError(resetAt);
+      }
+      throw new Error(`GraphQL error: ${result.errors.map((e: any) => e.message).join(', ')}`);
+    }
 
-  const result = await response.json();
-  
-  if (result.errors) {
-    const isRateLimit = result.errors.some(
-      (e: any) => e.type === 'RATE_LIMITED' || /rate limit/i.test(e.message ?? '')
-    );
-    if (isRateLimit) {
-      const resetHeader = response.headers.get('x-ratelimit-reset');
-      const resetAt = resetHeader
-        ? new Date(parseInt(resetHeader) * 1000).toISOString()
-        : new Date(Date.now() + 3_600_000).toISOString();
-      throw new RateLimitError(resetAt);
-    }
-    throw new Error(`GraphQL error: ${result.errors.map((e: any) => e.message).join(', ')}`);
-  }
+    // Extract rate limit info if present
+    const rateLimit = result.data?.rateLimit ? {
+      remaining: result.data.rateLimit.remaining,
+      resetAt: result.data.rateLimit.resetAt,
+    } : undefined;
 
-  // Extract rate limit info if present
-  const rateLimit = result.data?.rateLimit ? {
-    remaining: result.data.rateLimit.remaining,
-    resetAt: result.data.rateLimit.resetAt,
-  } : undefined;
+    if (rateLimit) {
+      recordRateLimit(token, rateLimit);
+    }
 
-  return { ...result.data, rateLimit };
+    return { ...result.data, rateLimit };
+  });
 }
 
 export async function getOrgMembersGraphQL(org: string): Promise<string[]> {
@@ -135,7 +262,9 @@ export async function getOrgMembersREST(org: string): Promise<string[]> {
 
   while (hasMore) {
     const response = await fetchGitHub(
-      `https://api.github.com/orgs/${org}/members?per_page=100&page=${page}`
+      `/orgs/${org}/members?per_page=100&page=${page}`,
+      {},
+      org
     );
     
     const data = await response.json();
@@ -158,7 +287,9 @@ export async function getRepoCollaboratorsREST(owner: string, repo: string): Pro
 
   while (hasMore) {
     const response = await fetchGitHub(
-      `https://api.github.com/repos/${owner}/${repo}/collaborators?affiliation=all&per_page=100&page=${page}`
+      `/repos/${owner}/${repo}/collaborators?affiliation=all&per_page=100&page=${page}`,
+      {},
+      owner
     );
 
     const data = await response.json();
@@ -179,6 +310,260 @@ export async function getRepoCollaboratorsREST(owner: string, repo: string): Pro
   return Array.from(collaborators);
 }
 
+export async function getTeamMembersGraphQL(org: string, slug: string): Promise<string[]> {
+  const query = `
+    query TeamMembers($login: String!, $slug: String!, $cursor: String) {
+      organization(login: $login) {
+        team(slug: $slug) {
+          members(first: 100, after: $cursor) {
+            pageInfo { hasNextPage endCursor }
+            nodes { login }
+          }
+        }
+      }
+      rateLimit { remaining resetAt }
+    }
+  `;
+
+  type TeamMembersResult = {
+    organization: {
+      team: {
+        members: {
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+          nodes: Array<{ login: string }>;
+        };
+      } | null;
+    } | null;
+  };
+
+  const members: string[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const result: TeamMembersResult = await graphql<TeamMembersResult>(query, { login: org, slug, cursor });
+
+    // Unknown team, or a token without read:org
+    const team = result.organization?.team;
+    if (!team) break;
+
+    members.push(...team.members.nodes.map(node => node.login));
+    hasNextPage = team.members.pageInfo.hasNextPage;
+    cursor = team.members.pageInfo.endCursor;
+  }
+
+  return members;
+}
+
+// GitHub reads the first of these that exists on the default branch
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+/** Contents of the repo's CODEOWNERS file, or null if it has none. */
+export async function getCodeownersFile(owner: string, repo: string): Promise<string | null> {
+  const query = `
+    query CodeOwners($owner: String!, $name: String!) {
+      repository(owner: $owner, name: $name) {
+        ${CODEOWNERS_PATHS.map((path, i) => `file${i}: object(expression: "HEAD:${path}") { ... on Blob { text } }`).join('\n        ')}
+      }
+      rateLimit { remaining resetAt }
+    }
+  `;
+
+  const result = await graphql<{ repository: Record<string, { text?: string } | null> }>(query, { owner, name: repo });
+  const file = CODEOWNERS_PATHS
+    .map((_, i) => result.repository?.[`file${i}`]?.text)
+    .find(text => typeof text === 'string');
+  return file ?? null;
+}
+
+/**
+ * Paths changed by a PR. Only the first 100 files are read: plenty to tell who
+ * owns a change, and huge PRs would otherwise cost a query per 100 files.
+ */
+export async function getPRChangedFiles(owner: string, repo: string, number: number): Promise<string[]> {
+  const query = `
+    query PRFiles($owner: String!, $name: String!, $number: Int!) {
+      repository(owner: $owner, name: $name) {
+        pullRequest(number: $number) {
+          files(first: 100) { nodes { path } }
+        }
+      }
+      rateLimit { remaining resetAt }
+    }
+  `;
+
+  const result = await graphql<{ repository: { pullRequest: { files: { nodes: Array<{ path: string }> } | null } | null } }>(
+    query,
+    { owner, name: repo, number }
+  );
+  return result.repository?.pullRequest?.files?.nodes.map(node => node.path) ?? [];
+}
+
+// A nested connection on a PR node that can outgrow its first page
+type NestedConnection = {
+  first: number;      // Page size in the main query; follow-up pages use NESTED_PAGE_SIZE
+  args?: string;      // Extra connection arguments, e.g. itemTypes
+  nodes: string;      // Node selection
+};
+
+const NESTED_PAGE_SIZE = 100;
+
+function nestedConnectionFields(connections: Record<string, NestedConnection>): string {
+  return Object.entries(connections)
+    .map(([field, { first, args, nodes }]) => `
+      ${field}(first: ${first}${args ? `, ${args}` : ''}) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${nodes} }
+      }`)
+    .join('');
+}
+
+const OPEN_PR_CONNECTIONS: Record<string, NestedConnection> = {
+  labels: { first: 20, nodes: 'name' },
+  reviewRequests: {
+    first: 20,
+    nodes: `
+      requestedReviewer {
+        __typename
+        ... on User { login }
+        ... on Team { slug }
+      }`,
+  },
+  reviews: { first: 50, nodes: 'author { login } state submittedAt' },
+  // Conversation-tab and inline replies count as a first response too
+  comments: { first: 50, nodes: 'author { login } createdAt' },
+  reviewThreads: {
+    first: 50,
+    nodes: 'comments(first: 20) { nodes { author { login } createdAt } }',
+  },
+  timelineItems: {
+    first: 10,
+    args: 'itemTypes: [READY_FOR_REVIEW_EVENT]',
+    nodes: '__typename ... on ReadyForReviewEvent { createdAt }',
+  },
+};
+
+// Node selection shared by the full open-PR fetch and the incremental sync query,
+// so both produce the raw shape transformPR expects.
+const PR_NODE_FIELDS = `
+  number title url createdAt updatedAt isDraft authorAssociation state
+  additions deletions changedFiles
+  author { login }
+  mergeable
+  mergeStateStatus
+  commits(last: 1) { nodes { commit { statusCheckRollup { state } } } }
+  ${nestedConnectionFields(OPEN_PR_CONNECTIONS)}
+`;
+
+const MERGED_PR_CONNECTIONS: Record<string, NestedConnection> = {
+  timelineItems: {
+    first: 100,
+    args: 'itemTypes: [REVIEW_REQUESTED_EVENT, READY_FOR_REVIEW_EVENT, PULL_REQUEST_REVIEW]',
+    nodes: `
+      __typename
+      ... on ReviewRequestedEvent {
+        createdAt
+        requestedReviewer {
+          __typename
+          ... on User { login }
+        }
+      }
+      ... on ReadyForReviewEvent {
+        createdAt
+      }
+      ... on PullRequestReview {
+        author { login }
+        authorAssociation
+        submittedAt
+        state
+      }`,
+  },
+};
+
+/**
+ * Page through the rest of one nested connection on a PR, starting after
+ * `cursor`. Stops at MAX_NESTED_PAGES; `truncated` says whether nodes were left.
+ */
+async function fetchRemainingNodes(
+  owner: string,
+  repo: string,
+  number: number,
+  field: string,
+  connection: NestedConnection,
+  cursor: string | null
+): Promise<{ nodes: any[]; truncated: boolean }> {
+  const query = `
+    query NestedConnection($owner: String!, $name: String!, $number: Int!, $cursor: String) {
+      repository(owner: $owner, name: $name) {
+        pullRequest(number: $number) {
+          ${field}(first: ${NESTED_PAGE_SIZE}, after: $cursor${connection.args ? `, ${connection.args}` : ''}) {
+            pageInfo { hasNextPage endCursor }
+            nodes { ${connection.nodes} }
+          }
+        }
+      }
+      rateLimit { remaining resetAt }
+    }
+  `;
+
+  type NestedConnectionResult = {
+    repository: {
+      pullRequest: Record<string, { pageInfo: { hasNextPage: boolean; endCursor: string | null }; nodes: any[] }>;
+    };
+  };
+
+  const nodes: any[] = [];
+  let hasNextPage = true;
+  let pageCount = 0;
+
+  while (hasNextPage && pageCount < config.limits.maxNestedPages) {
+    const result: NestedConnectionResult = await graphql<NestedConnectionResult>(query, { owner, name: repo, number, cursor });
+    const page = result.repository.pullRequest[field];
+
+    nodes.push(...page.nodes);
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+    pageCount++;
+  }
+
+  return { nodes, truncated: hasNextPage };
+}
+
+/**
+ * Fill in every nested connection the main query left unfinished, in place.
+ * PRs that still hit the cap get the connection names in `truncatedConnections`
+ * so callers can flag their data as partial.
+ */
+async function completeNestedConnections(
+  owner: string,
+  repo: string,
+  prs: any[],
+  connections: Record<string, NestedConnection>
+): Promise<void> {
+  for (const pr of prs) {
+    for (const [field, connection] of Object.entries(connections)) {
+      const pageInfo = pr[field]?.pageInfo;
+      if (!pageInfo?.hasNextPage) continue;
+
+      const { nodes, truncated } = await fetchRemainingNodes(owner, repo, pr.number, field, connection, pageInfo.endCursor);
+      pr[field] = { pageInfo: { hasNextPage: truncated, endCursor: null }, nodes: [...pr[field].nodes, ...nodes] };
+
+      if (truncated) {
+        pr.truncatedConnections = [...(pr.truncatedConnections || []), field];
+      }
+    }
+  }
+}
+
+type PullRequestsPage = {
+  repository: {
+    pullRequests: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: any[];
+    };
+  };
+};
+
 export async function getOpenPRsGraphQL(owner: string, repo: string): Promise<any[]> {
   const query = `
     query OpenPRs($owner: String!, $name: String!, $cursor: String) {
@@ -186,32 +571,7 @@ export async function getOpenPRsGraphQL(owner: string, repo: string): Promise<an
         pullRequests(states: OPEN, first: 50, after: $cursor, orderBy: {field: CREATED_AT, direction: DESC}) {
           pageInfo { hasNextPage endCursor }
           nodes {
-            number title url createdAt updatedAt isDraft authorAssociation state
-            author { login }
-            mergeable
-            labels(first: 20) { nodes { name } }
-            reviewRequests(first: 20) {
-              nodes { 
-                requestedReviewer { 
-                  __typename 
-                  ... on User { login } 
-                  ... on Team { slug } 
-                } 
-              }
-            }
-            reviews(first: 50) {
-              nodes { 
-                author { login } 
-                state 
-                submittedAt 
-              }
-            }
-            timelineItems(first: 10, itemTypes: [READY_FOR_REVIEW_EVENT]) {
-              nodes {
-                __typename
-                ... on ReadyForReviewEvent { createdAt }
-              }
-            }
+            ${PR_NODE_FIELDS}
           }
         }
       }
@@ -225,20 +585,12 @@ export async function getOpenPRsGraphQL(owner: string, repo: string): Promise<an
   let pageCount = 0;
 
   while (hasNextPage && pageCount < config.limits.maxPrPagesPerRepo) {
-    type OpenPRsResult = {
-      repository: {
-        pullRequests: {
-          pageInfo: { hasNextPage: boolean; endCursor: string | null };
-          nodes: any[];
-        };
-      };
-    };
-    
-    const result: OpenPRsResult = await graphql<OpenPRsResult>(query, { owner, name: repo, cursor });
+    const result: PullRequestsPage = await graphql<PullRequestsPage>(query, { owner, name: repo, cursor });
 
     const prData = result.repository.pullRequests;
     // Filter to ensure only OPEN PRs are included
     const openPrs = prData.nodes.filter((pr: any) => pr.state === 'OPEN');
+    await completeNestedConnections(owner, repo, openPrs, OPEN_PR_CONNECTIONS);
     prs.push(...openPrs);
     
     hasNextPage = prData.pageInfo.hasNextPage;
@@ -249,8 +601,64 @@ export async function getOpenPRsGraphQL(owner: string, repo: string): Promise<an
   return prs;
 }
 
+export type UpdatedPRsResult = {
+  prs: any[];          // Every PR (any state) updated at or after `since`, newest first
+  complete: boolean;   // False if the page cap was hit before reaching `since`
+};
+
+/**
+ * Fetch PRs in any state whose updatedAt is at or after `since`, ordered by
+ * UPDATED_AT so pagination can stop at the watermark. Closed and merged PRs
+ * are returned too so callers can drop them from their open set.
+ */
+export async function getPRsUpdatedSince(owner: string, repo: string, since: string): Promise<UpdatedPRsResult> {
+  const query = `
+    query UpdatedPRs($owner: String!, $name: String!, $cursor: String) {
+      repository(owner: $owner, name: $name) {
+        pullRequests(states: [OPEN, CLOSED, MERGED], first: 50, after: $cursor, orderBy: {field: UPDATED_AT, direction: DESC}) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            ${PR_NODE_FIELDS}
+          }
+        }
+      }
+      rateLimit { remaining resetAt }
+    }
+  `;
+
+  const sinceTime = new Date(since).getTime();
+  const prs: any[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+  let reachedWatermark = false;
+  let pageCount = 0;
+
+  while (hasNextPage && !reachedWatermark && pageCount < config.limits.maxPrPagesPerRepo) {
+    const result: PullRequestsPage = await graphql<PullRequestsPage>(query, { owner, name: repo, cursor });
+    const prData = result.repository.pullRequests;
+
+    const pagePrs: any[] = [];
+    for (const pr of prData.nodes) {
+      if (new Date(pr.updatedAt).getTime() < sinceTime) {
+        reachedWatermark = true;
+        break;
+      }
+      pagePrs.push(pr);
+    }
+
+    await completeNestedConnections(owner, repo, pagePrs, OPEN_PR_CONNECTIONS);
+    prs.push(...pagePrs);
+
+    hasNextPage = prData.pageInfo.hasNextPage;
+    cursor = prData.pageInfo.endCursor;
+    pageCount++;
+  }
+
+  return { prs, complete: reachedWatermark || !hasNextPage };
+}
+
 export async function getRateLimit(): Promise<GitHubRateLimit> {
-  const response = await fetchGitHub('https://api.github.com/rate_limit');
+  const response = await fetchGitHub('/rate_limit');
   const data = await response.json();
   
   return {
@@ -259,48 +667,31 @@ export async function getRateLimit(): Promise<GitHubRateLimit> {
   };
 }
 
-export async function getOrgRepositories(org: string): Promise<any[]> {
+// Every repository of an org, archived and forked ones included; lib/repositories.ts decides what to track
+export async function getOrgRepositories(org: string, includePrivate = false): Promise<any[]> {
   const repositories: any[] = [];
   let page = 1;
   let hasMore = true;
 
   while (hasMore) {
     const response = await fetchGitHub(
-      `https://api.github.com/orgs/${org}/repos?type=public&sort=updated&per_page=100&page=${page}`
+      `/orgs/${org}/repos?type=${includePrivate ? 'all' : 'public'}&sort=updated&per_page=100&page=${page}`,
+      {},
+      org
     );
     
     const data = await response.json();
-    
-    if (data.length === 0) {
-      hasMore = false;
-    } else {
-      // Filter out archived and disabled repos
-      const activeRepos = data.filter((repo: any) => !repo.archived && !repo.disabled);
-      repositories.push(...activeRepos);
-      page++;
-    }
+    repositories.push(...data);
+    hasMore = data.length === 100;
+    page++;
   }
 
   return repositories;
 }
 
-export async function getAllRepositoriesFromOrgs(orgs: string[]): Promise<string[]> {
-  const allRepos: string[] = [];
-  
-  for (const org of orgs) {
-    try {
-      console.log(`Fetching repositories for organization: ${org}`);
-      const repos = await getOrgRepositories(org);
-      const repoNames = repos.map(repo => repo.full_name);
-      allRepos.push(...repoNames);
-      console.log(`Found ${repoNames.length} active repositories for ${org}`);
-    } catch (error) {
-      console.error(`Failed to fetch repositories for org ${org}:`, error);
-      // Continue with other orgs
-    }
-  }
-  
-  return allRepos;
+export async function getRepositoryREST(owner: string, repo: string): Promise<any> {
+  const response = await fetchGitHub(`/repos/${owner}/${repo}`, {}, owner);
+  return response.json();
 }
 
 export type CompletedReviewData = {
@@ -318,162 +709,20 @@ export type ReviewRequestData = {
   prNumber: number;
 };
 
+// Time from ready-for-review to the first review by someone other than the author
+export type FirstReviewData = {
+  prNumber: number;
+  prUrl: string;
+  size: SizeBucket;
+  reviewTimeHours: number;
+};
+
 export type ReviewStatsData = {
   completedReviews: CompletedReviewData[];
   reviewRequests: ReviewRequestData[];
+  firstReviews?: FirstReviewData[];
 };
 
-export async function getRecentlyMergedPRsWithReviews(owner: string, repo: string, daysBack: number = 30): Promise<ReviewStatsData> {
-  if (daysBack <= 0) {
-    throw new Error('daysBack must be a positive number');
-  }
-  
-  const sinceDate = new Date();
-  sinceDate.setDate(sinceDate.getDate() - daysBack);
-  
-  const query = `
-    query RecentMergedPRs($owner: String!, $name: String!, $cursor: String) {
-      repository(owner: $owner, name: $name) {
-        pullRequests(states: MERGED, first: 50, after: $cursor, orderBy: {field: UPDATED_AT, direction: DESC}) {
-          pageInfo { hasNextPage endCursor }
-          nodes {
-            number
-            url
-            mergedAt
-            timelineItems(first: 100, itemTypes: [REVIEW_REQUESTED_EVENT, PULL_REQUEST_REVIEW]) {
-              nodes {
-                __typename
-                ... on ReviewRequestedEvent {
-                  createdAt
-                  requestedReviewer {
-                    __typename
-                    ... on User { login }
-                  }
-                }
-                ... on PullRequestReview {
-                  author { login }
-                  authorAssociation
-                  submittedAt
-                  state
-                }
-              }
-            }
-          }
-        }
-      }
-      rateLimit { remaining resetAt }
-    }
-  `;
-
-  const completedReviews: CompletedReviewData[] = [];
-  const reviewRequests: ReviewRequestData[] = [];
-  let cursor: string | null = null;
-  let hasNextPage = true;
-  let pageCount = 0;
-  const maxPages = 5; // Limit pages to avoid excessive API calls
-
-  while (hasNextPage && pageCount < maxPages) {
-    type MergedPRsResult = {
-      repository: {
-        pullRequests: {
-          pageInfo: { hasNextPage: boolean; endCursor: string | null };
-          nodes: any[];
-        };
-      };
-    };
-    
-    const result: MergedPRsResult = await graphql<MergedPRsResult>(query, { owner, name: repo, cursor });
-
-    const prData = result.repository.pullRequests;
-    
-    for (const pr of prData.nodes) {
-      // Skip PRs merged before our date range
-      if (pr.mergedAt && new Date(pr.mergedAt) < sinceDate) {
-        hasNextPage = false;
-        break;
-      }
-      
-      // Build a map of review requests by reviewer (keep the FIRST request time)
-      const prReviewRequests: Record<string, string> = {};
-      const reviews: Array<{ login: string; authorAssociation: string; submittedAt: string }> = [];
-      
-      for (const item of pr.timelineItems?.nodes || []) {
-        if (item.__typename === 'ReviewRequestedEvent' && item.requestedReviewer?.login) {
-          if (isBotLogin(item.requestedReviewer.login)) {
-            continue;
-          }
-
-          // Only store the first request time (don't overwrite if already exists)
-          if (!prReviewRequests[item.requestedReviewer.login]) {
-            prReviewRequests[item.requestedReviewer.login] = item.createdAt;
-          }
-        } else if (item.__typename === 'PullRequestReview' && item.author?.login && item.submittedAt) {
-          if (isBotLogin(item.author.login)) {
-            continue;
-          }
-
-          // Only count actual reviews (APPROVED, CHANGES_REQUESTED, COMMENTED)
-          if (['APPROVED', 'CHANGES_REQUESTED', 'COMMENTED'].includes(item.state)) {
-            reviews.push({
-              login: item.author.login,
-              authorAssociation: item.authorAssociation || 'NONE',
-              submittedAt: item.submittedAt,
-            });
-          }
-        }
-      }
-      
-      // Track all review requests within the date range
-      for (const [login, requestedAt] of Object.entries(prReviewRequests)) {
-        if (new Date(requestedAt) >= sinceDate) {
-          reviewRequests.push({
-            reviewerLogin: login,
-            requestedAt,
-            prNumber: pr.number,
-          });
-        }
-      }
-      
-      // Match reviews with their request times
-      // Track which reviewers have already had their request "fulfilled" for this PR
-      const fulfilledRequests = new Set<string>();
-      
-      for (const review of reviews) {
-        // Only count reviews submitted within our date range
-        if (new Date(review.submittedAt) >= sinceDate) {
-          // Only include requestedAt if:
-          // 1. The request was within the date range
-          // 2. The review was submitted AFTER the request (a review can't fulfill a request that came later)
-          // 3. This is the first review from this reviewer on this PR (to avoid counting multiple reviews as multiple fulfilled requests)
-          const requestedAt = prReviewRequests[review.login];
-          const requestedAtInRange = requestedAt && new Date(requestedAt) >= sinceDate ? requestedAt : null;
-          const reviewAfterRequest = requestedAtInRange && new Date(review.submittedAt) >= new Date(requestedAtInRange);
-          const isFirstReviewForRequest = reviewAfterRequest && !fulfilledRequests.has(review.login);
-          
-          if (isFirstReviewForRequest) {
-            fulfilledRequests.add(review.login);
-          }
-          
-          completedReviews.push({
-            reviewerLogin: review.login,
-            authorAssociation: review.authorAssociation,
-            submittedAt: review.submittedAt,
-            requestedAt: isFirstReviewForRequest ? requestedAtInRange : null,
-            prNumber: pr.number,
-            prUrl: pr.url,
-          });
-        }
-      }
-    }
-    
-    hasNextPage = prData.pageInfo.hasNextPage && hasNextPage;
-    cursor = prData.pageInfo.endCursor;
-    pageCount++;
-  }
-
-  return { completedReviews, reviewRequests };
-}
-
 export type CommunityPRReviewData = {
   reviewerLogin: string;
   prNumber: number;
@@ -512,21 +761,72 @@ export type AllPRReviewStatsResult = {
   botReviews: BotPRReviewData[];
 };
 
+export type MergedPRsData = {
+  since: string;       // Start of the window (ISO); derivations ignore activity before it
+  prs: any[];          // Raw merged PR nodes, merged on or after `since`
+  complete?: boolean;  // False if MAX_WINDOW_PAGES was hit before reaching `since`
+};
+
 /**
- * Fetch review stats for ALL merged PRs in a single query, then categorize by author type.
- * This reduces the number of API calls from 3 to 1 per repository.
- * 
- * Categorizes PRs into:
- * - Community PRs: authored by non-org-members without write access
- * - Org Member PRs: authored by org members or users with write access  
- * - Bot PRs: authored by bots (dependabot, renovate, etc.)
+ * Page through a repo's PRs in one state, newest update first, keeping those
+ * whose `dateField` (mergedAt/closedAt) is on or after `since`. A PR can't be
+ * merged or closed after its last update, so paging stops at the first PR
+ * updated before `since`; older merges/closes that were touched recently are
+ * skipped on the way. MAX_WINDOW_PAGES only guards against runaway paging.
  */
-export async function getAllPRReviewStats(
+async function getPRsInWindow(
   owner: string,
   repo: string,
-  daysBack: number = 30,
-  employeesSet: Set<string>
-): Promise<AllPRReviewStatsResult> {
+  query: string,
+  connections: Record<string, NestedConnection>,
+  since: Date,
+  dateField: 'mergedAt' | 'closedAt'
+): Promise<{ prs: any[]; complete: boolean }> {
+  const prs: any[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+  let pageCount = 0;
+
+  while (hasNextPage && pageCount < config.limits.maxWindowPages) {
+    const result: PullRequestsPage = await graphql<PullRequestsPage>(query, { owner, name: repo, cursor });
+    const prData = result.repository.pullRequests;
+
+    const pagePrs: any[] = [];
+    let reachedBoundary = false;
+    for (const pr of prData.nodes) {
+      if (new Date(pr.updatedAt) < since) {
+        reachedBoundary = true;
+        break;
+      }
+      if (pr[dateField] && new Date(pr[dateField]) >= since) {
+        pagePrs.push(pr);
+      }
+    }
+
+    await completeNestedConnections(owner, repo, pagePrs, connections);
+    prs.push(...pagePrs);
+
+    hasNextPage = prData.pageInfo.hasNextPage && !reachedBoundary;
+    cursor = prData.pageInfo.endCursor;
+    pageCount++;
+  }
+
+  if (hasNextPage) {
+    console.warn(`${owner}/${repo}: stopped after ${pageCount} pages of ${dateField.replace('At', '')} PRs before reaching ${since.toISOString()}`);
+  }
+
+  return { prs, complete: !hasNextPage };
+}
+
+const COUNTED_REVIEW_STATES = ['APPROVED', 'CHANGES_REQUESTED', 'COMMENTED'];
+
+/**
+ * Fetch merged PRs from the last `daysBack` days with every timeline item the
+ * review stats need (review requests, ready-for-review and reviews) in one
+ * paginated pass. Both `deriveReviewStats` and `deriveAllPRReviewStats` work
+ * off the result, so each repo costs a single set of merged-PR queries.
+ */
+export async function getMergedPRsWithTimeline(owner: string, repo: string, daysBack: number = 30): Promise<MergedPRsData> {
   if (daysBack <= 0) {
     throw new Error('daysBack must be a positive number');
   }
@@ -535,7 +835,7 @@ export async function getAllPRReviewStats(
   sinceDate.setDate(sinceDate.getDate() - daysBack);
 
   const query = `
-    query AllMergedPRReviews($owner: String!, $name: String!, $cursor: String) {
+    query MergedPRsWithTimeline($owner: String!, $name: String!, $cursor: String) {
       repository(owner: $owner, name: $name) {
         pullRequests(states: MERGED, first: 50, after: $cursor, orderBy: {field: UPDATED_AT, direction: DESC}) {
           pageInfo { hasNextPage endCursor }
@@ -543,24 +843,15 @@ export async function getAllPRReviewStats(
             number
             url
             createdAt
+            updatedAt
             mergedAt
             isDraft
+            additions
+            deletions
+            changedFiles
             author { login }
             authorAssociation
-            timelineItems(first: 100, itemTypes: [READY_FOR_REVIEW_EVENT, PULL_REQUEST_REVIEW]) {
-              nodes {
-                __typename
-                ... on ReadyForReviewEvent {
-                  createdAt
-                }
-                ... on PullRequestReview {
-                  author { login }
-                  authorAssociation
-                  submittedAt
-                  state
-                }
-              }
-            }
+            ${nestedConnectionFields(MERGED_PR_CONNECTIONS)}
           }
         }
       }
@@ -568,129 +859,289 @@ export async function getAllPRReviewStats(
     }
   `;
 
-  const communityReviews: CommunityPRReviewData[] = [];
-  const orgMemberReviews: OrgMemberPRReviewData[] = [];
-  const botReviews: BotPRReviewData[] = [];
-  
-  let cursor: string | null = null;
-  let hasNextPage = true;
-  let pageCount = 0;
-  const maxPages = 5;
+  const { prs, complete } = await getPRsInWindow(owner, repo, query, MERGED_PR_CONNECTIONS, sinceDate, 'mergedAt');
 
-  while (hasNextPage && pageCount < maxPages) {
-    type MergedPRsResult = {
-      repository: {
-        pullRequests: {
-          pageInfo: { hasNextPage: boolean; endCursor: string | null };
-          nodes: any[];
-        };
-      };
-    };
+  return { since: sinceDate.toISOString(), prs, complete };
+}
 
-    const result: MergedPRsResult = await graphql<MergedPRsResult>(query, { owner, name: repo, cursor });
-    const prData = result.repository.pullRequests;
+export type ClosedPRsData = {
+  since: string;       // Start of the window (ISO)
+  prs: any[];          // Raw PR nodes closed without merging on or after `since`
+  complete?: boolean;  // False if MAX_WINDOW_PAGES was hit before reaching `since`
+};
 
-    for (const pr of prData.nodes) {
-      // Skip PRs merged before our date range
-      if (pr.mergedAt && new Date(pr.mergedAt) < sinceDate) {
-        hasNextPage = false;
-        break;
+const CLOSED_PR_CONNECTIONS: Record<string, NestedConnection> = {
+  labels: { first: 20, nodes: 'name' },
+  timelineItems: {
+    first: 100,
+    args: 'itemTypes: [CLOSED_EVENT, PULL_REQUEST_REVIEW]',
+    nodes: `
+      __typename
+      ... on ClosedEvent {
+        createdAt
+        actor { login }
       }
+      ... on PullRequestReview {
+        author { login }
+        submittedAt
+        state
+      }`,
+  },
+};
 
-      const authorLogin = pr.author?.login;
-      const authorAssociation = pr.authorAssociation || 'NONE';
-
-      // Skip if no author (ghost users)
-      if (!authorLogin) continue;
+/**
+ * Fetch PRs closed without merging in the last `daysBack` days, with who
+ * closed them and any reviews they got.
+ */
+export async function getClosedPRsWithTimeline(owner: string, repo: string, daysBack: number = 30): Promise<ClosedPRsData> {
+  if (daysBack <= 0) {
+    throw new Error('daysBack must be a positive number');
+  }
 
-      // Determine author type
-      const isBot = isBotLogin(authorLogin);
-      const isEmployee = employeesSet.has(authorLogin);
-      const hasWriteAccess = ['COLLABORATOR', 'MEMBER', 'OWNER'].includes(authorAssociation);
+  const sinceDate = new Date();
+  sinceDate.setDate(sinceDate.getDate() - daysBack);
 
-      // Determine when PR became ready for review
-      let readyForReviewAt: string | null = null;
-      for (const item of pr.timelineItems?.nodes || []) {
-        if (item.__typename === 'ReadyForReviewEvent') {
-          readyForReviewAt = item.createdAt;
-          break;
+  const query = `
+    query ClosedPRsWithTimeline($owner: String!, $name: String!, $cursor: String) {
+      repository(owner: $owner, name: $name) {
+        pullRequests(states: CLOSED, first: 50, after: $cursor, orderBy: {field: UPDATED_AT, direction: DESC}) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            number
+            title
+            url
+            createdAt
+            updatedAt
+            closedAt
+            isDraft
+            author { login }
+            authorAssociation
+            ${nestedConnectionFields(CLOSED_PR_CONNECTIONS)}
+          }
         }
       }
-      // If no ReadyForReviewEvent, PR was created as non-draft
-      if (!readyForReviewAt) {
-        readyForReviewAt = pr.createdAt;
+      rateLimit { remaining resetAt }
+    }
+  `;
+
+  const { prs, complete } = await getPRsInWindow(owner, repo, query, CLOSED_PR_CONNECTIONS, sinceDate, 'closedAt');
+
+  return { since: sinceDate.toISOString(), prs, complete };
+}
+
+/**
+ * Review requests and completed reviews within the window, with each review
+ * matched to the request it fulfilled (if any).
+ */
+export function deriveReviewStats(merged: MergedPRsData): ReviewStatsData {
+  const sinceDate = new Date(merged.since);
+  const completedReviews: CompletedReviewData[] = [];
+  const reviewRequests: ReviewRequestData[] = [];
+  const firstReviews: FirstReviewData[] = [];
+
+  for (const pr of merged.prs) {
+    // Build a map of review requests by reviewer (keep the FIRST request time)
+    const prReviewRequests: Record<string, string> = {};
+    const reviews: Array<{ login: string; authorAssociation: string; submittedAt: string }> = [];
+
+    for (const item of pr.timelineItems?.nodes || []) {
+      if (item.__typename === 'ReviewRequestedEvent' && item.requestedReviewer?.login) {
+        if (isBotLogin(item.requestedReviewer.login)) {
+          continue;
+        }
+
+        // Only store the first request time (don't overwrite if already exists)
+        if (!prReviewRequests[item.requestedReviewer.login]) {
+          prReviewRequests[item.requestedReviewer.login] = item.createdAt;
+        }
+      } else if (item.__typename === 'PullRequestReview' && item.author?.login && item.submittedAt) {
+        if (isBotLogin(item.author.login)) {
+          continue;
+        }
+
+        // Only count actual reviews (APPROVED, CHANGES_REQUESTED, COMMENTED)
+        if (COUNTED_REVIEW_STATES.includes(item.state)) {
+          reviews.push({
+            login: item.author.login,
+            authorAssociation: item.authorAssociation || 'NONE',
+            submittedAt: item.submittedAt,
+          });
+        }
       }
+    }
 
-      // Find first human review by each reviewer
-      const reviewerFirstReview: Record<string, string> = {};
-      for (const item of pr.timelineItems?.nodes || []) {
-        if (item.__typename === 'PullRequestReview' && item.author?.login && item.submittedAt) {
-          if (isBotLogin(item.author.login)) {
-            continue;
-          }
+    // Track all review requests within the date range
+    for (const [login, requestedAt] of Object.entries(prReviewRequests)) {
+      if (new Date(requestedAt) >= sinceDate) {
+        reviewRequests.push({
+          reviewerLogin: login,
+          requestedAt,
+          prNumber: pr.number,
+        });
+      }
+    }
 
-          if (['APPROVED', 'CHANGES_REQUESTED', 'COMMENTED'].includes(item.state)) {
-            const reviewerLogin = item.author.login;
-            if (!reviewerFirstReview[reviewerLogin]) {
-              reviewerFirstReview[reviewerLogin] = item.submittedAt;
-            }
-          }
+    // Match reviews with their request times
+    // Track which reviewers have already had their request "fulfilled" for this PR
+    const fulfilledRequests = new Set<string>();
+
+    for (const review of reviews) {
+      // Only count reviews submitted within our date range
+      if (new Date(review.submittedAt) >= sinceDate) {
+        // Only include requestedAt if:
+        // 1. The request was within the date range
+        // 2. The review was submitted AFTER the request (a review can't fulfill a request that came later)
+        // 3. This is the first review from this reviewer on this PR (to avoid counting multiple reviews as multiple fulfilled requests)
+        const requestedAt = prReviewRequests[review.login];
+        const requestedAtInRange = requestedAt && new Date(requestedAt) >= sinceDate ? requestedAt : null;
+        const reviewAfterRequest = requestedAtInRange && new Date(review.submittedAt) >= new Date(requestedAtInRange);
+        const isFirstReviewForRequest = reviewAfterRequest && !fulfilledRequests.has(review.login);
+
+        if (isFirstReviewForRequest) {
+          fulfilledRequests.add(review.login);
         }
+
+        completedReviews.push({
+          reviewerLogin: review.login,
+          authorAssociation: review.authorAssociation,
+          submittedAt: review.submittedAt,
+          requestedAt: isFirstReviewForRequest ? requestedAtInRange : null,
+          prNumber: pr.number,
+          prUrl: pr.url,
+        });
       }
+    }
 
-      // Create review data for each reviewer
-      for (const [reviewerLogin, firstReviewAt] of Object.entries(reviewerFirstReview)) {
-        const readyTime = new Date(readyForReviewAt!).getTime();
-        const reviewTime = new Date(firstReviewAt).getTime();
-        const reviewTimeHours = (reviewTime - readyTime) / (1000 * 60 * 60);
-
-        // Skip invalid times
-        if (reviewTimeHours <= 0) continue;
-
-        // Only include reviews within our date range
-        if (new Date(firstReviewAt) < sinceDate) continue;
-
-        // Categorize by author type and add to appropriate array
-        if (isBot) {
-          botReviews.push({
-            reviewerLogin,
-            prNumber: pr.number,
-            prUrl: pr.url,
-            prAuthor: authorLogin,
-            readyForReviewAt: readyForReviewAt!,
-            firstReviewAt,
-            reviewTimeHours,
-          });
-        } else if (isEmployee || hasWriteAccess) {
-          orgMemberReviews.push({
-            reviewerLogin,
-            prNumber: pr.number,
-            prUrl: pr.url,
-            prAuthor: authorLogin,
-            prAuthorAssociation: authorAssociation,
-            readyForReviewAt: readyForReviewAt!,
-            firstReviewAt,
-            reviewTimeHours,
-          });
-        } else {
-          communityReviews.push({
-            reviewerLogin,
-            prNumber: pr.number,
-            prUrl: pr.url,
-            prAuthor: authorLogin,
-            prAuthorAssociation: authorAssociation,
-            readyForReviewAt: readyForReviewAt!,
-            firstReviewAt,
-            reviewTimeHours,
-          });
+    // Reviews arrive in timeline order, so the first non-author one is the PR's first review.
+    // Bot-authored PRs are skipped, as they are for open PRs in computeReviewTimeBySize.
+    const firstReview = isBotLogin(pr.author?.login) ? undefined : reviews.find(review => review.login !== pr.author?.login);
+    if (firstReview && new Date(firstReview.submittedAt) >= sinceDate) {
+      const readyForReviewAt = pr.timelineItems?.nodes?.find((item: any) => item.__typename === 'ReadyForReviewEvent')?.createdAt || pr.createdAt;
+      const reviewTimeHours = (new Date(firstReview.submittedAt).getTime() - new Date(readyForReviewAt).getTime()) / (1000 * 60 * 60);
+      if (reviewTimeHours >= 0) {
+        firstReviews.push({ prNumber: pr.number, prUrl: pr.url, size: sizeBucket(pr.additions, pr.deletions), reviewTimeHours });
+      }
+    }
+  }
+
+  return { completedReviews, reviewRequests, firstReviews };
+}
+
+/**
+ * Time from ready-for-review to each reviewer's first review, categorized by author type:
+ * - Community PRs: authored by non-org-members without write access
+ * - Org Member PRs: authored by org members or users with write access
+ * - Bot PRs: authored by bots (dependabot, renovate, etc.)
+ */
+export function deriveAllPRReviewStats(merged: MergedPRsData, employeesSet: Set<string>): AllPRReviewStatsResult {
+  const sinceDate = new Date(merged.since);
+  const communityReviews: CommunityPRReviewData[] = [];
+  const orgMemberReviews: OrgMemberPRReviewData[] = [];
+  const botReviews: BotPRReviewData[] = [];
+
+  for (const pr of merged.prs) {
+    const authorLogin = pr.author?.login;
+    const authorAssociation = pr.authorAssociation || 'NONE';
+
+    // Skip if no author (ghost users)
+    if (!authorLogin) continue;
+
+    // Determine author type
+    const isBot = isBotLogin(authorLogin);
+    const isEmployee = employeesSet.has(authorLogin);
+    const hasWriteAccess = ['COLLABORATOR', 'MEMBER', 'OWNER'].includes(authorAssociation);
+
+    // Determine when PR became ready for review
+    let readyForReviewAt: string | null = null;
+    for (const item of pr.timelineItems?.nodes || []) {
+      if (item.__typename === 'ReadyForReviewEvent') {
+        readyForReviewAt = item.createdAt;
+        break;
+      }
+    }
+    // If no ReadyForReviewEvent, PR was created as non-draft
+    if (!readyForReviewAt) {
+      readyForReviewAt = pr.createdAt;
+    }
+
+    // Find first human review by each reviewer
+    const reviewerFirstReview: Record<string, string> = {};
+    for (const item of pr.timelineItems?.nodes || []) {
+      if (item.__typename === 'PullRequestReview' && item.author?.login && item.submittedAt) {
+        if (isBotLogin(item.author.login)) {
+          continue;
+        }
+
+        if (COUNTED_REVIEW_STATES.includes(item.state)) {
+          const reviewerLogin = item.author.login;
+          if (!reviewerFirstReview[reviewerLogin]) {
+            reviewerFirstReview[reviewerLogin] = item.submittedAt;
+          }
         }
       }
     }
 
-    hasNextPage = prData.pageInfo.hasNextPage && hasNextPage;
-    cursor = prData.pageInfo.endCursor;
-    pageCount++;
+    // Create review data for each reviewer
+    for (const [reviewerLogin, firstReviewAt] of Object.entries(reviewerFirstReview)) {
+      const readyTime = new Date(readyForReviewAt!).getTime();
+      const reviewTime = new Date(firstReviewAt).getTime();
+      const reviewTimeHours = (reviewTime - readyTime) / (1000 * 60 * 60);
+
+      // Skip invalid times
+      if (reviewTimeHours <= 0) continue;
+
+      // Only include reviews within our date range
+      if (new Date(firstReviewAt) < sinceDate) continue;
+
+      // Categorize by author type and add to appropriate array
+      if (isBot) {
+        botReviews.push({
+          reviewerLogin,
+          prNumber: pr.number,
+          prUrl: pr.url,
+          prAuthor: authorLogin,
+          readyForReviewAt: readyForReviewAt!,
+          firstReviewAt,
+          reviewTimeHours,
+        });
+      } else if (isEmployee || hasWriteAccess) {
+        orgMemberReviews.push({
+          reviewerLogin,
+          prNumber: pr.number,
+          prUrl: pr.url,
+          prAuthor: authorLogin,
+          prAuthorAssociation: authorAssociation,
+          readyForReviewAt: readyForReviewAt!,
+          firstReviewAt,
+          reviewTimeHours,
+        });
+      } else {
+        communityReviews.push({
+          reviewerLogin,
+          prNumber: pr.number,
+          prUrl: pr.url,
+          prAuthor: authorLogin,
+          prAuthorAssociation: authorAssociation,
+          readyForReviewAt: readyForReviewAt!,
+          firstReviewAt,
+          reviewTimeHours,
+        });
+      }
+    }
   }
 
   return { communityReviews, orgMemberReviews, botReviews };
 }
+
+export async function getRecentlyMergedPRsWithReviews(owner: string, repo: string, daysBack: number = 30): Promise<ReviewStatsData> {
+  return deriveReviewStats(await getMergedPRsWithTimeline(owner, repo, daysBack));
+}
+
+export async function getAllPRReviewStats(
+  owner: string,
+  repo: string,
+  daysBack: number = 30,
+  employeesSet: Set<string>
+): Promise<AllPRReviewStatsResult> {
+  return deriveAllPRReviewStats(await getMergedPRsWithTimeline(owner, repo, daysBack), employeesSet);
+}
@@ -0,0 +1,219 @@
+import { createSign } from 'crypto';
+import { config } from './config';
+import { GitHubAPIError, RateLimitError } from './githubErrors';
+import { GitHubRateLimit } from './types';
+import { getDefaultHost, hostForOwner } from './githubHosts';
+
+type InstallationToken = {
+  token: string;
+  expiresAt: number;   // Epoch ms
+};
+
+// Refresh installation tokens this long before GitHub expires them (they last an hour)
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const installationIds = new Map<string, number>();
+const installationTokens = new Map<number, InstallationToken>();
+// In-flight token exchanges, so concurrent requests share one exchange per installation
+const pendingTokens = new Map<number, Promise<InstallationToken>>();
+
+export function isGitHubAppConfigured(): boolean {
+  return Boolean(config.github.app.appId && config.github.app.privateKey);
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Sign the short-lived RS256 JWT a GitHub App uses to call the `/app` endpoints.
+ * `iat` is backdated a minute to tolerate clock drift; GitHub caps `exp` at 10 minutes.
+ */
+export function createAppJwt(now: number = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - 60;
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ iat: issuedAt, exp: issuedAt + 9 * 60, iss: config.github.app.appId }));
+
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(config.github.app.privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+async function fetchAsApp(url: string, options: RequestInit = {}): Promise<any> {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      'Authorization': `Bearer ${createAppJwt()}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'OpenHands-PR-Dashboard/1.0',
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    throw new GitHubAPIError(
+      `GitHub App authentication failed: ${response.status} ${response.statusText} (${url})`,
+      response.status
+    );
+  }
+
+  return response.json();
+}
+
+// The app's installation on an org, or on a user account for user-owned repos
+async function lookupInstallation(owner: string): Promise<{ id: number }> {
+  const apiUrl = getDefaultHost().apiUrl;
+  try {
+    return await fetchAsApp(`${apiUrl}/orgs/${owner}/installation`);
+  } catch (error) {
+    if (error instanceof GitHubAPIError && error.status === 404) {
+      return fetchAsApp(`${apiUrl}/users/${owner}/installation`);
+    }
+    throw error;
+  }
+}
+
+async function getInstallationId(owner: string): Promise<number> {
+  if (config.github.app.installationId) {
+    return parseInt(config.github.app.installationId);
+  }
+
+  const key = owner.toLowerCase();
+  const cached = installationIds.get(key);
+  if (cached) return cached;
+
+  const installation = await lookupInstallation(owner);
+  installationIds.set(key, installation.id);
+  return installation.id;
+}
+
+async function exchangeInstallationToken(installationId: number): Promise<InstallationToken> {
+  const data = await fetchAsApp(`${getDefaultHost().apiUrl}/app/installations/${installationId}/access_tokens`, {
+    method: 'POST',
+  });
+  return { token: data.token, expiresAt: new Date(data.expires_at).getTime() };
+}
+
+async function getInstallationToken(installationId: number): Promise<string> {
+  const cached = installationTokens.get(installationId);
+  if (cached && cached.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+    return cached.token;
+  }
+
+  let pending = pendingTokens.get(installationId);
+  if (!pending) {
+    pending = exchangeInstallationToken(installationId).finally(() => pendingTokens.delete(installationId));
+    pendingTokens.set(installationId, pending);
+  }
+
+  const fresh = await pending;
+  installationTokens.set(installationId, fresh);
+  return fresh.token;
+}
+
+type TokenHealth = {
+  remaining: number | null;   // null until GitHub has reported on the token
+  resetAt: number;            // Epoch ms
+};
+
+// Last known rate limit per personal access token in GITHUB_TOKENS
+const tokenHealth = new Map<string, TokenHealth>();
+
+function currentHealth(token: string, now: number): TokenHealth {
+  const health = tokenHealth.get(token);
+  // Once the window resets the token's old budget says nothing about the new one
+  if (!health || health.resetAt <= now) return { remaining: null, resetAt: 0 };
+  return health;
+}
+
+/**
+ * Pick the pooled token with the most remaining budget. Tokens GitHub hasn't
+ * reported on yet count as full. Throws RateLimitError (with the earliest
+ * reset) only when every token is exhausted.
+ */
+function pickPooledToken(now: number = Date.now()): string {
+  const tokens = config.github.tokens;
+  if (tokens.length === 0) return '';
+
+  let best: string | null = null;
+  let bestRemaining = -1;
+  let earliestReset = Infinity;
+
+  for (const token of tokens) {
+    const { remaining, resetAt } = currentHealth(token, now);
+    if (remaining === 0) {
+      earliestReset = Math.min(earliestReset, resetAt);
+      continue;
+    }
+    const budget = remaining ?? Infinity;
+    if (budget > bestRemaining) {
+      best = token;
+      bestRemaining = budget;
+    }
+  }
+
+  if (best === null) {
+    throw new RateLimitError(new Date(earliestReset).toISOString());
+  }
+  return best;
+}
+
+/**
+ * Remember a token's rate limit as reported by GitHub (REST headers or the
+ * GraphQL `rateLimit` block) so later requests can steer around it.
+ */
+export function recordRateLimit(token: string, rateLimit: GitHubRateLimit): void {
+  if (!config.github.tokens.includes(token)) return;
+  tokenHealth.set(token, { remaining: rateLimit.remaining, resetAt: new Date(rateLimit.resetAt).getTime() });
+}
+
+/**
+ * Whether a RateLimitError on `token` can be retried with another credential.
+ * App installation tokens can't; pooled tokens can until the pool runs dry.
+ */
+export function canRotateToken(token: string): boolean {
+  return !isGitHubAppConfigured() && config.github.tokens.length > 1 && config.github.tokens.includes(token);
+}
+
+export function getTokenPoolStatus(now: number = Date.now()): Array<{ token: string; remaining: number | null; resetAt: string | null }> {
+  // Tokens are identified by position only; not even part of one is exposed
+  return config.github.tokens.map((token, index) => {
+    const { remaining, resetAt } = currentHealth(token, now);
+    return {
+      token: `token ${index + 1}`,
+      remaining,
+      resetAt: resetAt ? new Date(resetAt).toISOString() : null,
+    };
+  });
+}
+
+/**
+ * Token to authenticate a request against `owner`'s resources. Owners on the
+ * enterprise instance use its token. Otherwise, with a GitHub App configured
+ * this is the installation token for that org (falling back to the first
+ * configured org for requests that aren't tied to one); without one it's the
+ * healthiest personal access token in the pool. In replay mode no token is needed.
+ */
+export async function getGitHubToken(owner?: string): Promise<string> {
+  // Replayed responses don't need credentials, so offline runs work without any
+  if (config.github.mode === 'replay') {
+    return '';
+  }
+
+  if (hostForOwner(owner).isEnterprise) {
+    return config.github.enterprise.token;
+  }
+
+  if (!isGitHubAppConfigured()) {
+    return pickPooledToken();
+  }
+
+  const installationId = await getInstallationId(owner || config.orgs[0]);
+  return getInstallationToken(installationId);
+}
+
+export function resetGitHubAuthState(): void {
+  installationIds.clear();
+  installationTokens.clear();
+  pendingTokens.clear();
+  tokenHealth.clear();
+}
@@ -0,0 +1,19 @@
+import { GitHubRateLimit } from './types';
+
+export class GitHubAPIError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public rateLimit?: GitHubRateLimit
+  ) {
+    super(message);
+    this.name = 'GitHubAPIError';
+  }
+}
+
+export class RateLimitError extends Error {
+  constructor(public readonly resetAt: string) {
+    super('GitHub API rate limit exceeded');
+    this.name = 'RateLimitError';
+  }
+}
@@ -0,0 +1,87 @@
+import { config } from './config';
+
+export type GitHubHost = {
+  name: string;         // Hostname used in repo ids, e.g. "github.com" or "ghe.example.com"
+  apiUrl: string;       // REST base URL, no trailing slash
+  graphqlUrl: string;
+  isEnterprise: boolean;
+};
+
+export type RepoRef = {
+  host: GitHubHost;
+  owner: string;
+  repo: string;
+};
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// api.github.com serves github.com; GHES serves its API from the instance's own host
+function hostNameFromApiUrl(apiUrl: string): string {
+  const { hostname } = new URL(apiUrl);
+  return hostname === 'api.github.com' ? 'github.com' : hostname;
+}
+
+export function getDefaultHost(): GitHubHost {
+  const apiUrl = trimSlash(config.github.apiUrl);
+  return {
+    name: hostNameFromApiUrl(apiUrl),
+    apiUrl,
+    graphqlUrl: trimSlash(config.github.graphqlUrl || `${apiUrl}/graphql`),
+    isEnterprise: false,
+  };
+}
+
+export function getEnterpriseHost(): GitHubHost | null {
+  if (!config.github.enterprise.url) return null;
+
+  const baseUrl = trimSlash(config.github.enterprise.url);
+  return {
+    name: new URL(baseUrl).hostname,
+    apiUrl: `${baseUrl}/api/v3`,
+    graphqlUrl: `${baseUrl}/api/graphql`,
+    isEnterprise: true,
+  };
+}
+
+/**
+ * The instance an owner (org or user) lives on. Owners listed in
+ * GITHUB_ENTERPRISE_ORGS belong to the enterprise instance; everything else
+ * to the default host. Owner names are assumed unique across instances.
+ */
+export function hostForOwner(owner?: string): GitHubHost {
+  const enterprise = getEnterpriseHost();
+  if (enterprise && owner && config.github.enterprise.orgs.some(org => org.toLowerCase() === owner.toLowerCase())) {
+    return enterprise;
+  }
+  return getDefaultHost();
+}
+
+/**
+ * Parse `owner/repo` or `host/owner/repo`. The host is optional because it
+ * follows from the owner, but when given it has to match: ids never route
+ * requests (and tokens) to a host that isn't configured.
+ */
+export function parseRepoId(id: string): RepoRef | null {
+  const parts = id.trim().split('/').filter(Boolean);
+  if (parts.length !== 2 && parts.length !== 3) return null;
+
+  const [owner, repo] = parts.slice(-2);
+  const host = hostForOwner(owner);
+
+  if (parts.length === 3 && parts[0].toLowerCase() !== host.name.toLowerCase()) {
+    return null;
+  }
+
+  return { host, owner, repo };
+}
+
+/**
+ * Canonical repo id: plain `owner/repo` on the default host, host-qualified
+ * for enterprise repos so ids from different instances never collide.
+ */
+export function formatRepoId(owner: string, repo: string): string {
+  const host = hostForOwner(owner);
+  return host.isEnterprise ? `${host.name}/${owner}/${repo}` : `${owner}/${repo}`;
+}
@@ -0,0 +1,123 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from './config';
+import { GitHubAPIError } from './githubErrors';
+
+export type RecordedExchange = {
+  request: { method: string; url: string; query?: string; variables?: unknown };
+  response: { status: number; statusText: string; headers: Record<string, string>; body: unknown };
+};
+
+// The only response headers the client reads; nothing else (cookies, request ids) is written to disk
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'x-ratelimit-remaining', 'x-ratelimit-reset'];
+
+// JSON with sorted object keys, so equivalent variables always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function parseGraphQLBody(body?: string): { query?: string; variables?: unknown } {
+  if (!body) return {};
+  try {
+    const { query, variables } = JSON.parse(body);
+    return { query: typeof query === 'string' ? query.replace(/\s+/g, ' ').trim() : undefined, variables };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Fixture name for a request: a hash of the method, URL, whitespace-normalized
+ * GraphQL query and variables. Credentials never take part, so fixtures
+ * recorded with one token replay under any other (or none).
+ */
+export function fixtureKey(method: string, url: string, body?: string): string {
+  const { query, variables } = parseGraphQLBody(body);
+  const material = `${method.toUpperCase()} ${url}\n${query ?? ''}\n${stableStringify(variables)}`;
+  return createHash('sha256').update(material).digest('hex').slice(0, 16);
+}
+
+function fixturePath(key: string): string {
+  return path.join(path.resolve(process.cwd(), config.github.fixturesDir), `${key}.json`);
+}
+
+async function replay(method: string, url: string, key: string): Promise<Response> {
+  let exchange: RecordedExchange;
+  try {
+    exchange = JSON.parse(await fs.readFile(fixturePath(key), 'utf8'));
+  } catch {
+    throw new GitHubAPIError(
+      `No recorded GitHub response for ${method} ${url} (${key}.json in ${config.github.fixturesDir}); capture it with GITHUB_MODE=record`,
+      404
+    );
+  }
+
+  const { status, statusText, headers, body } = exchange.response;
+  return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, statusText, headers });
+}
+
+async function record(method: string, url: string, key: string, requestBody: string | undefined, response: Response): Promise<void> {
+  const text = await response.clone().text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Keep non-JSON bodies (e.g. HTML error pages) as text
+  }
+
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value != null) headers[name] = value;
+  }
+
+  const exchange: RecordedExchange = {
+    request: { method, url, ...parseGraphQLBody(requestBody) },
+    response: { status: response.status, statusText: response.statusText, headers, body },
+  };
+
+  const file = fixturePath(key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(exchange, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Route a GitHub request through the configured GITHUB_MODE: `live` just
+ * calls `fetchLive`, `record` calls it and saves the response as a fixture,
+ * and `replay` serves the saved fixture without touching the network.
+ */
+export async function fetchWithRecording(
+  url: string,
+  options: RequestInit,
+  fetchLive: () => Promise<Response>
+): Promise<Response> {
+  const mode = config.github.mode;
+  if (mode !== 'record' && mode !== 'replay') return fetchLive();
+
+  const method = (options.method || 'GET').toUpperCase();
+  const body = typeof options.body === 'string' ? options.body : undefined;
+  const key = fixtureKey(method, url, body);
+
+  if (mode === 'replay') {
+    return replay(method, url, key);
+  }
+
+  const response = await fetchLive();
+  try {
+    await record(method, url, key, body, response);
+  } catch (error) {
+    // A failed write shouldn't fail the request being recorded
+    console.error(`Failed to record GitHub response for ${method} ${url}:`, error);
+  }
+  return response;
+}
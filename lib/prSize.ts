@@ -0,0 +1,17 @@
+import { SizeBucket } from './types';
+
+export const SIZE_BUCKETS: SizeBucket[] = ['XS', 'S', 'M', 'L', 'XL'];
+
+// Upper bound (exclusive) on lines changed for each bucket below XL
+const SIZE_BUCKET_LIMITS: Array<[SizeBucket, number]> = [
+  ['XS', 10],
+  ['S', 50],
+  ['M', 250],
+  ['L', 1000],
+];
+
+/** Size bucket for a PR from its lines added plus lines deleted. */
+export function sizeBucket(additions: number = 0, deletions: number = 0): SizeBucket {
+  const linesChanged = additions + deletions;
+  return SIZE_BUCKET_LIMITS.find(([, limit]) => linesChanged < limit)?.[0] ?? 'XL';
+}
@@ -0,0 +1,162 @@
+import { config } from './config';
+import { cache } from './cache';
+import {
+  getOpenPRsGraphQL,
+  getPRsUpdatedSince,
+  getMergedPRsWithTimeline,
+  getClosedPRsWithTimeline,
+  MergedPRsData,
+  ClosedPRsData,
+} from './github';
+
+// Cache keys derived from per-repo PR data, invalidated whenever that data is patched. Dashboard entries are
+// only marked stale, so they stay available as the fallback when the refresh they trigger is rate limited.
+const STALE_CACHE_PREFIXES = ['dashboard:'];
+const DROPPED_CACHE_PREFIXES = ['review-stats:'];
+
+export function openPRsCacheKey(owner: string, repo: string): string {
+  return `open-prs:${owner}/${repo}`.toLowerCase();
+}
+
+type RepoSyncState = {
+  prs: Map<number, any>;   // Open PRs by number
+  watermark: string;       // Latest updatedAt seen across every synced PR
+  lastFullSyncAt: number;
+};
+
+// Outlives cache entries on purpose: an expired cache entry only triggers an incremental sync
+const syncStates = new Map<string, RepoSyncState>();
+
+function latestUpdatedAt(prs: any[], fallback: string): string {
+  return prs.reduce(
+    (latest, pr) => (pr.updatedAt && pr.updatedAt > latest ? pr.updatedAt : latest),
+    fallback
+  );
+}
+
+function sortedOpenPRs(state: RepoSyncState): any[] {
+  // Same order as a full fetch (CREATED_AT DESC)
+  return Array.from(state.prs.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function fullSync(owner: string, repo: string, startedAt: number): Promise<RepoSyncState> {
+  const prs = await getOpenPRsGraphQL(owner, repo);
+  return {
+    prs: new Map(prs.map(pr => [pr.number, pr])),
+    // GitHub's own timestamps avoid clock skew; the start time only covers empty repos
+    watermark: latestUpdatedAt(prs, '') || new Date(startedAt).toISOString(),
+    lastFullSyncAt: startedAt,
+  };
+}
+
+/**
+ * Bring a repo's stored open-PR set up to date. The first call (and one every
+ * FULL_RESYNC_MINUTES, as a safety net) does a full fetch; later calls only
+ * query PRs updated since the watermark, upserting open ones and dropping any
+ * that were closed or merged.
+ */
+export async function syncRepoOpenPRs(owner: string, repo: string, now: number = Date.now()): Promise<any[]> {
+  const key = openPRsCacheKey(owner, repo);
+  const existing = syncStates.get(key);
+  const resyncDue = !existing || now - existing.lastFullSyncAt >= config.sync.fullResyncMinutes * 60 * 1000;
+
+  if (resyncDue) {
+    const state = await fullSync(owner, repo, now);
+    syncStates.set(key, state);
+    return sortedOpenPRs(state);
+  }
+
+  const { prs: updated, complete } = await getPRsUpdatedSince(owner, repo, existing.watermark);
+
+  if (!complete) {
+    // Too much changed to stay under the page cap; a full fetch is cheaper and exact
+    const state = await fullSync(owner, repo, now);
+    syncStates.set(key, state);
+    return sortedOpenPRs(state);
+  }
+
+  for (const pr of updated) {
+    if (pr.state === 'OPEN') {
+      existing.prs.set(pr.number, pr);
+    } else {
+      existing.prs.delete(pr.number);
+    }
+  }
+  existing.watermark = latestUpdatedAt(updated, existing.watermark);
+
+  return sortedOpenPRs(existing);
+}
+
+export function resetSyncState(): void {
+  syncStates.clear();
+}
+
+/**
+ * Raw open PRs for a repo, in the GraphQL shape `transformPR` expects.
+ * Cached per repo so webhook deliveries can patch them in place instead of
+ * forcing a full refetch.
+ */
+export async function getRepoOpenPRs(owner: string, repo: string): Promise<any[]> {
+  return cache.withCache(openPRsCacheKey(owner, repo), config.cache.prDataTtlSeconds, () =>
+    config.sync.mode === 'incremental'
+      ? syncRepoOpenPRs(owner, repo)
+      : getOpenPRsGraphQL(owner, repo)
+  );
+}
+
+export async function invalidateRepoOpenPRs(owner: string, repo: string): Promise<void> {
+  await cache.delete(openPRsCacheKey(owner, repo));
+  await invalidateDerivedCaches();
+}
+
+function mergedCacheKeyPrefix(owner: string, repo: string): string {
+  return `merged-reviews:${owner}/${repo}:`.toLowerCase();
+}
+
+// Merged-PR review data only changes when a PR merges, so it is cached per repo
+// independently of the open PRs that webhooks keep patching. Callers derive
+// review stats from the raw PRs, so one fetch serves every merged-PR metric.
+export async function getRepoMergedPRs(owner: string, repo: string, daysBack: number): Promise<MergedPRsData> {
+  return cache.withCache(`${mergedCacheKeyPrefix(owner, repo)}${daysBack}`, config.cache.prDataTtlSeconds, () =>
+    getMergedPRsWithTimeline(owner, repo, daysBack)
+  );
+}
+
+export async function invalidateRepoMergedPRs(owner: string, repo: string): Promise<void> {
+  await cache.deleteByPrefix(mergedCacheKeyPrefix(owner, repo));
+  await invalidateDerivedCaches();
+}
+
+function closedCacheKeyPrefix(owner: string, repo: string): string {
+  return `closed-prs:${owner}/${repo}:`.toLowerCase();
+}
+
+// Like merged PRs, PRs closed without merging only change when another one closes
+export async function getRepoClosedPRs(owner: string, repo: string, daysBack: number): Promise<ClosedPRsData> {
+  return cache.withCache(`${closedCacheKeyPrefix(owner, repo)}${daysBack}`, config.cache.prDataTtlSeconds, () =>
+    getClosedPRsWithTimeline(owner, repo, daysBack)
+  );
+}
+
+export async function invalidateRepoClosedPRs(owner: string, repo: string): Promise<void> {
+  await cache.deleteByPrefix(closedCacheKeyPrefix(owner, repo));
+  await invalidateDerivedCaches();
+}
+
+/**
+ * Apply an in-place update to a repo's cached raw PRs. Returns false when the
+ * repo isn't cached (the next read fetches fresh data anyway) or the patch
+ * reports no change.
+ */
+export async function patchRepoOpenPRs(owner: string, repo: string, patch: (prs: any[]) => boolean): Promise<boolean> {
+  const changed = await cache.patch(openPRsCacheKey(owner, repo), patch);
+  if (changed) await invalidateDerivedCaches();
+  return changed;
+}
+
+export async function invalidateDerivedCaches(): Promise<void> {
+  await Promise.all([
+    ...STALE_CACHE_PREFIXES.map(prefix => cache.expireByPrefix(prefix)),
+    ...DROPPED_CACHE_PREFIXES.map(prefix => cache.deleteByPrefix(prefix)),
+  ]);
+}
@@ -0,0 +1,209 @@
+import { connect as netConnect, Socket } from 'net';
+import { connect as tlsConnect } from 'tls';
+
+// Just enough of the Redis protocol (RESP2) for the cache: one pipelined connection, no pub/sub
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+export class RedisTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisTimeoutError';
+  }
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+// A server that accepts the connection and then stalls would otherwise hang every cache read
+const COMMAND_TIMEOUT_MS = 5000;
+
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const value = Buffer.from(String(arg));
+    parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'));
+  }
+  return Buffer.concat(parts);
+}
+
+type Parsed = { value: RedisReply | RedisReplyError; end: number };
+
+// Parses one reply starting at `start`, or returns undefined until the whole reply has arrived
+export function parseReply(buffer: Buffer, start: number = 0): Parsed | undefined {
+  const lineEnd = buffer.indexOf('\r\n', start);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[start]);
+  const line = buffer.toString('utf8', start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, end: next };
+    case '-':
+      return { value: new RedisReplyError(line), end: next };
+    case ':':
+      return { value: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, end: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, end: next };
+      const items: RedisReply[] = [];
+      let error: RedisReplyError | undefined;
+      let end = next;
+      // Every element is consumed, even after an error, so the rest can't be mistaken for later replies
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) return undefined;
+        if (item.value instanceof RedisReplyError) {
+          error ??= item.value;
+        } else {
+          items.push(item.value);
+        }
+        end = item.end;
+      }
+      return { value: error ?? items, end };
+    }
+    default:
+      throw new RedisReplyError(`Unexpected reply type "${type}"`);
+  }
+}
+
+/**
+ * Connects lazily to `redis://[user:password@]host:port[/db]` (or `rediss://`
+ * for TLS) and reconnects on the next command after the connection drops.
+ */
+export class RedisClient {
+  private socket: Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private pending: Array<{ resolve: (reply: RedisReply) => void; reject: (error: Error) => void }> = [];
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private readonly url: string, private readonly commandTimeoutMs: number = COMMAND_TIMEOUT_MS) {}
+
+  async command(...args: Array<string | number>): Promise<RedisReply> {
+    const reused = this.ready !== null;
+    try {
+      await this.connect();
+      return await this.send(args);
+    } catch (error) {
+      // The server may have dropped an idle connection; the commands the cache sends are all safe to repeat once.
+      // A stalled server is not retried, so callers wait at most one timeout.
+      if (!reused || error instanceof RedisReplyError || error instanceof RedisTimeoutError) throw error;
+      await this.connect();
+      return this.send(args);
+    }
+  }
+
+  close(): void {
+    this.socket?.destroy();
+  }
+
+  private send(args: Array<string | number>): Promise<RedisReply> {
+    const socket = this.socket;
+    if (!socket) return Promise.reject(new Error('Redis connection closed'));
+
+    return new Promise((resolve, reject) => {
+      // Replies arrive in order, so a late one can't be matched up any more: the whole connection is dropped
+      const timer = setTimeout(() => {
+        this.reset(socket, new RedisTimeoutError(`Redis did not reply to ${args[0]} within ${this.commandTimeoutMs}ms`));
+      }, this.commandTimeoutMs);
+      timer.unref?.();
+      this.pending.push({
+        resolve: reply => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    const url = new URL(this.url);
+    const port = Number(url.port) || 6379;
+    const secure = url.protocol === 'rediss:';
+    const socket = secure
+      ? tlsConnect({ host: url.hostname, port, servername: url.hostname })
+      : netConnect({ host: url.hostname, port });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    // Don't keep the process (or a test run) alive just for the cache connection
+    socket.unref();
+
+    const connected = new Promise<void>((resolve, reject) => {
+      socket.setTimeout(CONNECT_TIMEOUT_MS, () => socket.destroy(new Error(`Timed out connecting to Redis at ${url.host}`)));
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.setTimeout(0);
+        resolve();
+      });
+      socket.once('error', reject);
+    });
+    socket.on('data', chunk => {
+      try {
+        this.onData(chunk);
+      } catch (error) {
+        // A reply we can't parse leaves the stream out of sync, so the connection is unusable
+        this.reset(socket, error as Error);
+      }
+    });
+    socket.on('error', error => this.reset(socket, error));
+    socket.on('close', () => this.reset(socket, new Error('Redis connection closed')));
+
+    this.ready = connected.then(async () => {
+      if (url.password) {
+        const password = decodeURIComponent(url.password);
+        await this.send(url.username ? ['AUTH', decodeURIComponent(url.username), password] : ['AUTH', password]);
+      }
+      const db = url.pathname.slice(1);
+      if (db) await this.send(['SELECT', db]);
+    }).catch(error => {
+      this.reset(socket, error);
+      throw error;
+    });
+    return this.ready;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let parsed: Parsed | undefined;
+    while (this.buffer.length > 0 && (parsed = parseReply(this.buffer))) {
+      this.buffer = this.buffer.subarray(parsed.end);
+      const waiter = this.pending.shift();
+      if (parsed.value instanceof RedisReplyError) {
+        waiter?.reject(parsed.value);
+      } else {
+        waiter?.resolve(parsed.value);
+      }
+    }
+  }
+
+  // Fails everything in flight; the next command opens a new connection
+  private reset(socket: Socket, error: Error): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+    this.ready = null;
+    socket.destroy();
+    for (const waiter of this.pending.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { config } from './config';
+import { cache } from './cache';
+import { RateLimitError, getOrgRepositories, getRepositoryREST } from './github';
+import { formatRepoId, parseRepoId } from './githubHosts';
+import { Repository } from './types';
+import { Viewer } from './viewer';
+
+function toRepository(raw: any): Repository {
+  return {
+    id: raw.id,
+    name: raw.name,
+    full_name: formatRepoId(raw.owner.login, raw.name),
+    description: raw.description ?? null,
+    stargazers_count: raw.stargazers_count ?? 0,
+    language: raw.language ?? null,
+    updated_at: raw.updated_at,
+    html_url: raw.html_url,
+    topics: raw.topics ?? [],
+    fork: Boolean(raw.fork),
+    archived: Boolean(raw.archived),
+    private: Boolean(raw.private),
+  };
+}
+
+// Default-host orgs plus the enterprise ones, each once
+function discoveryOrgs(): string[] {
+  const orgs = new Map<string, string>();
+  [...config.orgs, ...config.github.enterprise.orgs].forEach(org => {
+    if (org && !orgs.has(org.toLowerCase())) orgs.set(org.toLowerCase(), org);
+  });
+  return Array.from(orgs.values());
+}
+
+/** `*` matches within one path segment; repo ids compare case-insensitively, like on GitHub. */
+export function matchesRepoPattern(pattern: string, repoId: string): boolean {
+  const source = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*');
+  return new RegExp(`^${source}$`, 'i').test(repoId);
+}
+
+function isTracked(repo: Repository): boolean {
+  // Patterns may name enterprise repos with or without their host
+  const ids = [repo.full_name, repo.full_name.split('/').slice(-2).join('/')];
+  const matchesAny = (patterns: string[]) => patterns.some(pattern => ids.some(id => matchesRepoPattern(pattern, id)));
+  const { include, exclude, includeForks, includeArchived, topics } = config.repos;
+
+  if (include.length > 0 && !matchesAny(include)) return false;
+  if (matchesAny(exclude)) return false;
+  if (repo.fork && !includeForks) return false;
+  if (repo.archived && !includeArchived) return false;
+  if (topics.length > 0 && !repo.topics.some(topic => topics.includes(topic.toLowerCase()))) return false;
+  if (repo.private && !config.repos.includePrivate) return false;
+  return true;
+}
+
+async function fetchOrgRepositories(orgs: string[]): Promise<Repository[]> {
+  let failedOrgs = 0;
+  const perOrg = await Promise.all(orgs.map(async org => {
+    try {
+      return (await getOrgRepositories(org, config.repos.includePrivate)).filter(raw => !raw.disabled).map(toRepository);
+    } catch (error) {
+      if (error instanceof RateLimitError) throw error;
+      console.error(`Failed to fetch repositories for org ${org}:`, error);
+      failedOrgs++;
+      return [];
+    }
+  }));
+
+  // Throwing keeps an outage from being cached as "no repositories" for the whole discovery TTL
+  if (orgs.length > 0 && failedOrgs === orgs.length) {
+    throw new Error('Repository discovery failed for every configured org');
+  }
+  return perOrg.flat();
+}
+
+// REPOS_INCLUDE entries without a wildcard can name repos outside ORGS; those are looked up one by one
+async function fetchExplicitRepositories(known: Set<string>): Promise<Repository[]> {
+  const missing = config.repos.include
+    .filter(pattern => !pattern.includes('*'))
+    .map(parseRepoId)
+    .filter((ref): ref is NonNullable<typeof ref> => ref !== null && !known.has(formatRepoId(ref.owner, ref.repo).toLowerCase()));
+
+  const repos = await Promise.all(missing.map(async ({ owner, repo }) => {
+    try {
+      return [toRepository(await getRepositoryREST(owner, repo))];
+    } catch (error) {
+      if (error instanceof RateLimitError) throw error;
+      console.error(`Failed to fetch repository ${owner}/${repo}:`, error);
+      return [];
+    }
+  }));
+  return repos.flat();
+}
+
+/**
+ * Every repository the dashboard tracks: the repos of ORGS and
+ * GITHUB_ENTERPRISE_ORGS, narrowed by REPOS_INCLUDE/REPOS_EXCLUDE globs and the
+ * fork, archive and topic settings, most-starred first. Cached for
+ * REPO_DISCOVERY_TTL_SECONDS.
+ */
+export async function discoverRepositories(): Promise<Repository[]> {
+  const orgs = discoveryOrgs();
+
+  return cache.withCache(`repositories:${orgs.join(',')}`.toLowerCase(), config.repos.discoveryTtlSeconds, async () => {
+    const discovered = await fetchOrgRepositories(orgs);
+    const explicit = await fetchExplicitRepositories(new Set(discovered.map(repo => repo.full_name.toLowerCase())));
+
+    return [...discovered, ...explicit]
+      .filter(isTracked)
+      .sort((a, b) => b.stargazers_count - a.stargazers_count || a.full_name.localeCompare(b.full_name));
+  });
+}
+
+export async function visibleRepositories(viewer: Viewer): Promise<Repository[]> {
+  return (await discoverRepositories()).filter(repo => !repo.private || viewer.internal);
+}
+
+export async function discoverRepositoryIds(viewer: Viewer): Promise<string[]> {
+  return (await visibleRepositories(viewer)).map(repo => repo.full_name);
+}
+
+// Whether an id outside the tracked set names a public repo; failed lookups (e.g. a 404) count as not public
+async function isPublicRepository(owner: string, repo: string): Promise<boolean> {
+  const id = formatRepoId(owner, repo).toLowerCase();
+  return cache.withCache(`repo-public:${id}`, config.repos.discoveryTtlSeconds, async () => {
+    try {
+      return !(await getRepositoryREST(owner, repo)).private;
+    } catch (error) {
+      if (error instanceof RateLimitError) throw error;
+      console.error(`Failed to look up repository ${owner}/${repo}:`, error);
+      return false;
+    }
+  });
+}
+
+/**
+ * Narrow explicitly requested repo ids to those `viewer` may see. Public
+ * viewers get repos discovered as public, plus untracked ones GitHub reports
+ * as public; the token may well be able to read private repos that were never
+ * discovered, so those are checked rather than trusted.
+ */
+export async function filterVisibleRepoIds(repoIds: string[], viewer: Viewer): Promise<string[]> {
+  if (viewer.internal) return repoIds;
+
+  const visible = new Set((await visibleRepositories(viewer)).map(repo => repo.full_name.toLowerCase()));
+  const allowed = await Promise.all(repoIds.map(async id => {
+    const ref = parseRepoId(id);
+    if (!ref) return false;
+    return visible.has(formatRepoId(ref.owner, ref.repo).toLowerCase()) || isPublicRepository(ref.owner, ref.repo);
+  }));
+  return repoIds.filter((_id, i) => allowed[i]);
+}
@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { config } from './config';
+import { hasAssignedReviewer } from './compute';
+import { DEFAULT_STATS_WINDOW } from './statsWindow';
+import { DashboardData, DashboardMetrics, DashboardSnapshot, HistoryPoint, RepoSnapshotCounts, Reviewer, StatsWindowKey } from './types';
+
+export const HISTORY_KPIS: Array<keyof DashboardMetrics> = [
+  'openCommunityPrs',
+  'communityPrPct',
+  'medianResponseTimeHours',
+  'medianReviewTimeHours',
+  'reviewerCompliancePct',
+  'pendingReviews',
+  'activeReviewers',
+  'prsWithoutReviewers',
+  'communityPrsClosedWithoutReview',
+  'medianCommunityTimeToCloseHours',
+  'firstTimeContributorsWaiting',
+];
+
+export const HISTORY_REPO_KPIS: Array<keyof RepoSnapshotCounts> = ['openPrs', 'communityPrs', 'prsWithoutReviewers'];
+
+export const HISTORY_REVIEWER_KPIS: Array<keyof Reviewer> = [
+  'pendingCount',
+  'completedTotal',
+  'completedRequested',
+  'completedUnrequested',
+  'requestedTotal',
+  'completionRate',
+  'medianCommunityReviewTimeHours',
+  'medianOrgMemberReviewTimeHours',
+  'medianBotReviewTimeHours',
+];
+
+// Windows a snapshot can be recorded for; a custom range may lie in the past, so it has no place in a series
+export type SnapshotWindow = Exclude<StatsWindowKey, 'custom'>;
+
+// Last snapshot time per window and repo set, so cache refreshes don't write a point every few minutes
+const lastSnapshotAt = new Map<string, number>();
+
+function repoSetKey(repos: string[]): string {
+  return [...repos].sort().join(',');
+}
+
+function snapshotDir(): string {
+  return resolve(process.cwd(), config.snapshots.dir);
+}
+
+// One append-only JSONL file per UTC day keeps range reads cheap without an index
+function snapshotFileForDate(date: Date): string {
+  return join(snapshotDir(), `${date.toISOString().slice(0, 10)}.jsonl`);
+}
+
+// Snapshots from before stats windows were all taken over the default one
+function snapshotWindow(snapshot: DashboardSnapshot): SnapshotWindow {
+  return snapshot.window ?? (DEFAULT_STATS_WINDOW);
+}
+
+export function buildSnapshot(
+  data: DashboardData,
+  repos: string[],
+  window: SnapshotWindow = DEFAULT_STATS_WINDOW,
+  takenAt: Date = new Date()
+): DashboardSnapshot {
+  const repoCounts: Record<string, RepoSnapshotCounts> = {};
+
+  for (const repo of repos) {
+    repoCounts[repo] = { openPrs: 0, communityPrs: 0, prsWithoutReviewers: 0 };
+  }
+
+  for (const pr of data.prs) {
+    const counts = repoCounts[pr.repo] ?? (repoCounts[pr.repo] = { openPrs: 0, communityPrs: 0, prsWithoutReviewers: 0 });
+    counts.openPrs++;
+    if (pr.authorType === 'community') counts.communityPrs++;
+    if (!pr.isDraft && !hasAssignedReviewer(pr)) counts.prsWithoutReviewers++;
+  }
+
+  return {
+    takenAt: takenAt.toISOString(),
+    repos: [...repos].sort(),
+    window,
+    kpis: data.kpis,
+    metrics: data.metrics ?? {
+      openCommunityPrs: data.kpis.openCommunityPrs,
+      communityPrPct: parseFloat(data.kpis.communityPrPercentage) || 0,
+      medianResponseTimeHours: null,
+      medianReviewTimeHours: null,
+      reviewerCompliancePct: parseFloat(data.kpis.reviewerCompliance) || 0,
+      pendingReviews: data.kpis.pendingReviews,
+      activeReviewers: data.kpis.activeReviewers,
+      prsWithoutReviewers: data.kpis.prsWithoutReviewers,
+      communityPrsClosedWithoutReview: data.kpis.communityPrsClosedWithoutReview,
+      medianCommunityTimeToCloseHours: null,
+      firstTimeContributorsWaiting: data.kpis.firstTimeContributorsWaiting,
+    },
+    reviewers: data.reviewers ?? [],
+    repoCounts,
+  };
+}
+
+export async function writeSnapshot(snapshot: DashboardSnapshot): Promise<void> {
+  await fs.mkdir(snapshotDir(), { recursive: true });
+  await fs.appendFile(snapshotFileForDate(new Date(snapshot.takenAt)), JSON.stringify(snapshot) + '\n', 'utf-8');
+}
+
+/**
+ * Persist a snapshot of freshly computed dashboard data, at most once per
+ * SNAPSHOT_INTERVAL_MINUTES for a given window and repo set. Custom windows
+ * are never recorded. Failures are logged and swallowed: history is
+ * best-effort and must never break the dashboard.
+ */
+export async function maybeRecordSnapshot(
+  data: DashboardData,
+  repos: string[],
+  window: StatsWindowKey,
+  now: Date = new Date()
+): Promise<boolean> {
+  const intervalMinutes = config.snapshots.intervalMinutes;
+  if (!intervalMinutes || intervalMinutes <= 0 || window === 'custom') return false;
+
+  const key = `${window}:${repoSetKey(repos)}`;
+  const last = lastSnapshotAt.get(key);
+  if (last !== undefined && now.getTime() - last < intervalMinutes * 60 * 1000) {
+    return false;
+  }
+
+  lastSnapshotAt.set(key, now.getTime());
+
+  try {
+    await writeSnapshot(buildSnapshot(data, repos, window, now));
+    return true;
+  } catch (error) {
+    console.warn('Failed to write dashboard snapshot:', error);
+    return false;
+  }
+}
+
+export async function readSnapshots(from: Date, to: Date): Promise<DashboardSnapshot[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(snapshotDir());
+  } catch {
+    return [];
+  }
+
+  const fromDay = from.toISOString().slice(0, 10);
+  const toDay = to.toISOString().slice(0, 10);
+  const snapshots: DashboardSnapshot[] = [];
+
+  for (const file of files.filter(f => f.endsWith('.jsonl')).sort()) {
+    const day = file.slice(0, 10);
+    if (day < fromDay || day > toDay) continue;
+
+    const content = await fs.readFile(join(snapshotDir(), file), 'utf-8');
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const snapshot = JSON.parse(line) as DashboardSnapshot;
+        const takenAt = new Date(snapshot.takenAt).getTime();
+        if (takenAt >= from.getTime() && takenAt <= to.getTime()) {
+          snapshots.push(snapshot);
+        }
+      } catch {
+        // Skip a partially written line rather than failing the whole range
+      }
+    }
+  }
+
+  return snapshots.sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+}
+
+export type HistoryQuery = {
+  kpi: string;
+  from: Date;
+  to: Date;
+  repos: string[];
+  window: SnapshotWindow;
+  reviewer?: string;
+};
+
+export function isHistoryKpi(kpi: string, reviewer?: string): boolean {
+  if (reviewer) return (HISTORY_REVIEWER_KPIS as string[]).includes(kpi);
+  return (HISTORY_KPIS as string[]).includes(kpi) || (HISTORY_REPO_KPIS as string[]).includes(kpi);
+}
+
+/**
+ * Build a time series for one KPI, from snapshots of the query's stats window.
+ *
+ * - Aggregate KPIs and reviewer KPIs come from snapshots taken over exactly
+ *   the requested repo set, since they are not additive across repos.
+ * - Per-repo counts are summed from any snapshot that covered every
+ *   requested repo.
+ */
+export async function getKpiHistory(query: HistoryQuery): Promise<HistoryPoint[]> {
+  const snapshots = (await readSnapshots(query.from, query.to)).filter(s => snapshotWindow(s) === query.window);
+  const key = repoSetKey(query.repos);
+
+  if ((HISTORY_REPO_KPIS as string[]).includes(query.kpi) && !query.reviewer) {
+    const kpi = query.kpi as keyof RepoSnapshotCounts;
+    return snapshots
+      .filter(s => query.repos.every(repo => s.repoCounts[repo]))
+      .map(s => ({
+        takenAt: s.takenAt,
+        value: query.repos.reduce((sum, repo) => sum + s.repoCounts[repo][kpi], 0),
+      }));
+  }
+
+  const matching = snapshots.filter(s => repoSetKey(s.repos) === key);
+
+  if (query.reviewer) {
+    const kpi = query.kpi as keyof Reviewer;
+    return matching.map(s => {
+      const value = s.reviewers.find(r => r.name === query.reviewer)?.[kpi];
+      return { takenAt: s.takenAt, value: typeof value === 'number' ? value : null };
+    });
+  }
+
+  const kpi = query.kpi as keyof DashboardMetrics;
+  return matching.map(s => ({ takenAt: s.takenAt, value: s.metrics[kpi] ?? null }));
+}
@@ -0,0 +1,102 @@
+import { StatsWindow, StatsWindowKey } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const STATS_WINDOW_PRESETS: Record<Exclude<StatsWindowKey, 'custom'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+export const DEFAULT_STATS_WINDOW: Exclude<StatsWindowKey, 'custom'> = '30d';
+
+// Longest custom window; beyond this a single request pages through too much history
+export const MAX_CUSTOM_WINDOW_DAYS = 365;
+
+export const STATS_WINDOW_LABELS: Record<StatsWindowKey, string> = {
+  '7d': 'Last 7 Days',
+  '30d': 'Last 30 Days',
+  '90d': 'Last 90 Days',
+  custom: 'Custom Range',
+};
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Own keys only, so `constructor`, `toString` and the like aren't mistaken for presets
+function isPresetKey(key: string): key is keyof typeof STATS_WINDOW_PRESETS {
+  return Object.prototype.hasOwnProperty.call(STATS_WINDOW_PRESETS, key);
+}
+
+/**
+ * Resolve the `window` query parameter (plus `from`/`to` for `custom`) into
+ * concrete bounds. Returns an error message for anything invalid.
+ */
+export function resolveStatsWindow(
+  key: string | null,
+  from: string | null,
+  to: string | null,
+  now: Date = new Date()
+): StatsWindow | { error: string } {
+  const windowKey = (key || DEFAULT_STATS_WINDOW) as StatsWindowKey;
+
+  if (windowKey !== 'custom') {
+    if (!isPresetKey(windowKey)) {
+      return { error: `window must be one of: ${[...Object.keys(STATS_WINDOW_PRESETS), 'custom'].join(', ')}` };
+    }
+    const days = STATS_WINDOW_PRESETS[windowKey];
+    return { key: windowKey, since: new Date(now.getTime() - days * DAY_MS).toISOString(), until: now.toISOString() };
+  }
+
+  const since = parseDate(from);
+  if (!since) {
+    return { error: 'window=custom requires a valid `from` date' };
+  }
+
+  // A bare date for `to` means the whole of that day; anything past now is clamped to now
+  let until = parseDate(to) ?? now;
+  if (to && DATE_ONLY.test(to)) until = new Date(until.getTime() + DAY_MS - 1);
+  if (until > now) until = now;
+
+  if (since >= until) {
+    return { error: '`from` must be before `to`' };
+  }
+  if (until.getTime() - since.getTime() > MAX_CUSTOM_WINDOW_DAYS * DAY_MS) {
+    return { error: `custom windows can span at most ${MAX_CUSTOM_WINDOW_DAYS} days` };
+  }
+
+  return { key: 'custom', since: since.toISOString(), until: until.toISOString() };
+}
+
+/**
+ * Whole days to look back from now to cover the window; fetches are cached by
+ * this so every request for the same window shares them.
+ */
+export function lookbackDays(window: StatsWindow, now: Date = new Date()): number {
+  return Math.max(1, Math.ceil((now.getTime() - new Date(window.since).getTime()) / DAY_MS));
+}
+
+/**
+ * Narrow fetched PRs (which reach back a whole number of days to now) to the
+ * window's exact bounds, by the date that places a PR in it.
+ */
+export function clipToWindow<T extends { since: string; prs: any[] }>(
+  data: T,
+  window: StatsWindow,
+  dateField: 'mergedAt' | 'closedAt'
+): T {
+  const since = new Date(window.since).getTime();
+  const until = new Date(window.until).getTime();
+  return {
+    ...data,
+    since: window.since,
+    prs: data.prs.filter(pr => {
+      const at = new Date(pr[dateField]).getTime();
+      return at >= since && at <= until;
+    }),
+  };
+}
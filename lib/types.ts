@@ -6,9 +6,25 @@ export type Review = {
   submittedAt: string;
 };
 
+// Kind of interaction that counted as a PR's first human response
+export type FirstResponseType = 'review' | 'issue_comment' | 'review_comment';
+
+// Combined result of the checks and commit statuses on a PR's head commit
+export type CIStatus = 'passing' | 'failing' | 'pending';
+
+export type MergeableState = 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+
+// GitHub's MergeStateStatus: whether the PR could be merged right now, and if not, why
+export type MergeStateStatus = 'BEHIND' | 'BLOCKED' | 'CLEAN' | 'DIRTY' | 'DRAFT' | 'HAS_HOOKS' | 'UNKNOWN' | 'UNSTABLE';
+
+// PR size by lines changed; thresholds live in lib/prSize.ts
+export type SizeBucket = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
 export type RequestedReviewers = {
   users: string[];
   teams: string[];
+  // Members of each requested team by slug, excluding the PR author; set once team requests are expanded
+  teamMembers?: Record<string, string[]>;
 };
 
 export type PR = {
@@ -20,19 +36,73 @@ export type PR = {
   authorAssociation: string;
   authorType: 'employee' | 'maintainer' | 'collaborator' | 'community' | 'bot';
   isEmployeeAuthor: boolean;
+  isFirstTimeContributor: boolean;  // FIRST_TIME_CONTRIBUTOR or FIRST_TIMER community author; held to the stricter SLA
   isDraft: boolean;
   createdAt: string;
   updatedAt: string;
   readyForReviewAt: string;  // When PR became ready for review (or createdAt if never a draft)
   labels: string[];
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  size: SizeBucket;
   requestedReviewers: RequestedReviewers;
+  suggestedReviewers?: string[];  // From CODEOWNERS, only for non-draft PRs with no requested reviewers
   reviews: Review[];
   firstHumanResponseAt?: string;
+  firstResponseType?: FirstResponseType;
   firstReviewAt?: string;
   ageHours: number;
   needsFirstResponse: boolean;
   overdueFirstResponse: boolean;
   overdueFirstReview: boolean;
+  ciStatus?: CIStatus;  // Undefined when the head commit has no checks or statuses
+  mergeable?: MergeableState;
+  mergeStateStatus?: MergeStateStatus;
+  truncated?: boolean;  // A nested connection (reviews, labels, ...) hit MAX_NESTED_PAGES, so data may be incomplete
+};
+
+// A tracked repository, as served by /api/repositories
+export type Repository = {
+  id: number;
+  name: string;
+  full_name: string;  // Repo id as used everywhere else: owner/name, or host/owner/name on GitHub Enterprise
+  description: string | null;
+  stargazers_count: number;
+  language: string | null;
+  updated_at: string;
+  html_url: string;
+  topics: string[];
+  fork: boolean;
+  archived: boolean;
+  private: boolean;
+};
+
+export type StatsWindowKey = '7d' | '30d' | '90d' | 'custom';
+
+// Lookback window for reviewer stats and merged/closed PR metrics
+export type StatsWindow = {
+  key: StatsWindowKey;
+  since: string;   // ISO, inclusive
+  until: string;   // ISO, inclusive; now for the presets
+};
+
+// Who closed a PR without merging it; 'stale' is a bot closing it as stale (e.g. actions/stale)
+export type ClosedByType = 'author' | 'employee' | 'bot' | 'stale' | 'other';
+
+export type ClosedPR = {
+  repo: string;
+  number: number;
+  title: string;
+  url: string;
+  authorLogin: string;
+  authorType: PR['authorType'];
+  createdAt: string;
+  closedAt: string;
+  closedBy: ClosedByType;
+  closedByLogin?: string;
+  timeToCloseHours: number;
+  hadHumanReview: boolean;   // Any non-bot review by someone other than the author
 };
 
 export type KPIs = {
@@ -77,16 +147,31 @@ export type GitHubRateLimit = {
 };
 
 // New types for the updated dashboard
+// Where a review request to a team lands: on every member's pending load, or only on the team's row
+export type TeamRequestLoad = 'members' | 'team';
+
+// The server's team review settings, which filtering PRs in the browser needs too
+export type FilterOptions = {
+  teamRequestsCountAsAssigned: boolean;  // TEAM_REQUESTS_COUNT_AS_ASSIGNED
+  teamRequestLoad: TeamRequestLoad;      // TEAM_REQUEST_LOAD
+};
+
 export type FilterState = {
   repositories: string[];
   labels: string[];
   ageRange: string;
   status?: string;
   noReviewers?: boolean;
+  firstTimeContributors?: boolean;
   limit?: string;
   draftStatus?: string;
   authorType?: string;
   reviewer?: string;
+  ci?: string;
+  conflicts?: string;
+  window?: StatsWindowKey;
+  windowFrom?: string;   // YYYY-MM-DD, for the custom window
+  windowTo?: string;
 };
 
 export type Reviewer = {
@@ -110,6 +195,13 @@ export type Reviewer = {
   medianBotReviewTimeHours?: number | null;  // Median time from PR ready to first review (bot PRs only)
 };
 
+// Open PRs waiting on a review from a team as a whole
+export type TeamReviewLoad = {
+  name: string;         // org/slug
+  pendingCount: number;
+  memberCount: number;
+};
+
 export type DashboardKPIs = {
   openCommunityPrs: number;
   communityPrPercentage: string;
@@ -119,14 +211,70 @@ export type DashboardKPIs = {
   pendingReviews: number;
   activeReviewers: number;
   prsWithoutReviewers: number;
+  communityPrsClosedWithoutReview: number;
+  medianCommunityTimeToClose: string;    // Over community PRs closed unmerged in the stats window
+  firstTimeContributorsWaiting: number;  // Non-draft first-time contributor PRs still awaiting a first response
+};
+
+// Unformatted KPI values, used for historical trends where the display strings in DashboardKPIs lose precision
+export type DashboardMetrics = {
+  openCommunityPrs: number;
+  communityPrPct: number;
+  medianResponseTimeHours: number | null;
+  medianReviewTimeHours: number | null;
+  reviewerCompliancePct: number;
+  pendingReviews: number;
+  activeReviewers: number;
+  prsWithoutReviewers: number;
+  communityPrsClosedWithoutReview: number;
+  medianCommunityTimeToCloseHours: number | null;
+  firstTimeContributorsWaiting: number;
+};
+
+// Median time from ready-for-review to first review, for PRs of one size
+export type SizeBucketReviewTime = {
+  size: SizeBucket;
+  prCount: number;                       // PRs with a first review
+  medianReviewTimeHours: number | null;  // Null below the minimum sample size
 };
 
 export type DashboardData = {
   kpis: DashboardKPIs;
+  metrics?: DashboardMetrics;
+  reviewTimeBySize?: SizeBucketReviewTime[];
   prs: PR[];
+  closedPrs?: ClosedPR[];
+  window?: StatsWindow;
+  viewer?: 'public' | 'internal';  // 'internal' includes private repos
   reviewers?: Reviewer[];
+  teams?: TeamReviewLoad[];
   lastUpdated?: string;
+  isStale?: boolean;            // Served from cache past CACHE_TTL_SECONDS while a refresh runs
+  rateLimitResetAt?: string;    // Set when the refresh hit GitHub's rate limit
   totalPrs?: number;
+  filterOptions?: FilterOptions;
+};
+
+export type RepoSnapshotCounts = {
+  openPrs: number;
+  communityPrs: number;
+  prsWithoutReviewers: number;
+};
+
+// A point-in-time copy of the dashboard, persisted for historical KPI trends
+export type DashboardSnapshot = {
+  takenAt: string;
+  repos: string[];                  // Sorted repo set the KPIs were computed over
+  window?: Exclude<StatsWindowKey, 'custom'>;  // Stats window of the windowed KPIs and reviewer totals; absent means 30d
+  kpis: DashboardKPIs;
+  metrics: DashboardMetrics;
+  reviewers: Reviewer[];
+  repoCounts: Record<string, RepoSnapshotCounts>;
+};
+
+export type HistoryPoint = {
+  takenAt: string;
+  value: number | null;
 };
 
 // Community PR review metrics - measures time from PR ready to first review
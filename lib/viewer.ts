@@ -0,0 +1,27 @@
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { config } from './config';
+
+export const ACCESS_COOKIE = 'dashboard_access';
+
+export type Viewer = {
+  internal: boolean;  // May see PRs from private repositories
+};
+
+export const PUBLIC_VIEWER: Viewer = { internal: false };
+
+export function isValidAccessToken(token: string | null | undefined): token is string {
+  if (!token) return false;
+  const received = Buffer.from(token);
+  return config.access.internalTokens.some(candidate => {
+    const expected = Buffer.from(candidate);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  });
+}
+
+// The internal view is unlocked by `Authorization: Bearer <token>` (API clients) or the access cookie (browsers)
+export function getViewer(request: Pick<NextRequest, 'headers' | 'cookies'>): Viewer {
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const token = bearer ?? request.cookies.get(ACCESS_COOKIE)?.value;
+  return { internal: isValidAccessToken(token) };
+}
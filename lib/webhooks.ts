@@ -0,0 +1,327 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { patchRepoOpenPRs, invalidateRepoOpenPRs, invalidateRepoMergedPRs, invalidateRepoClosedPRs } from './prStore';
+
+export const SUPPORTED_WEBHOOK_EVENTS = [
+  'pull_request',
+  'pull_request_review',
+  'pull_request_review_comment',
+  'issue_comment',
+] as const;
+
+export type WebhookEvent = typeof SUPPORTED_WEBHOOK_EVENTS[number];
+
+export type WebhookResult = {
+  event: string;
+  action?: string;
+  repo?: string;
+  prNumber?: number;
+  applied: boolean;
+};
+
+export function isSupportedWebhookEvent(event: string): event is WebhookEvent {
+  return (SUPPORTED_WEBHOOK_EVENTS as readonly string[]).includes(event);
+}
+
+/**
+ * Verify the `X-Hub-Signature-256` header GitHub sends with every delivery.
+ * The HMAC must be computed over the raw request body, before JSON parsing.
+ */
+export function verifyWebhookSignature(rawBody: string, signatureHeader: string | null, secret: string): boolean {
+  if (!secret || !signatureHeader?.startsWith('sha256=')) return false;
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`);
+  const received = Buffer.from(signatureHeader);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+type GitHubUser = { login: string };
+
+// The fields of GitHub's webhook payloads read here; GitHub sends many more
+type PullRequestPayload = {
+  number: number;
+  title?: string;
+  html_url?: string;
+  state?: string;
+  draft?: boolean;
+  merged?: boolean;
+  created_at?: string;
+  updated_at?: string;
+  author_association?: string;
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+  user?: GitHubUser | null;
+  labels?: Array<{ name: string }>;
+  requested_reviewers?: GitHubUser[];
+  requested_teams?: Array<{ slug: string }>;
+  mergeable?: boolean | null;
+  mergeable_state?: string | null;
+};
+
+type ReviewPayload = {
+  state: string;
+  submitted_at?: string | null;
+  user?: GitHubUser | null;
+};
+
+type CommentPayload = {
+  created_at?: string;
+  updated_at?: string;
+  user?: GitHubUser | null;
+};
+
+export type WebhookPayload = {
+  action?: string;
+  repository?: { name: string; owner: GitHubUser };
+  sender?: GitHubUser;
+  pull_request?: PullRequestPayload;
+  review?: ReviewPayload;
+  comment?: CommentPayload;
+  issue?: { number: number; pull_request?: object };
+};
+
+type RawAuthor = GitHubUser | null;
+type RawComment = { author: RawAuthor; createdAt: string };
+type RawReviewRequest = { requestedReviewer?: { __typename: string; login?: string; slug?: string } };
+
+// The parts of a cached getOpenPRsGraphQL node patched here; every other field is carried over as is
+type RawPR = {
+  number: number;
+  updatedAt?: string;
+  additions?: number;
+  deletions?: number;
+  changedFiles?: number;
+  reviewRequests?: { nodes: RawReviewRequest[] };
+  reviews?: { nodes: Array<{ author: RawAuthor; state: string; submittedAt: string }> };
+  comments?: { nodes: RawComment[] };
+  reviewThreads?: { nodes: Array<{ comments?: { nodes: RawComment[] } }> };
+  timelineItems?: { nodes: Array<{ __typename: string; createdAt?: string }> };
+  mergeable?: string;
+  mergeStateStatus?: string;
+  commits?: { nodes: unknown[] };
+  [field: string]: unknown;
+};
+
+function toRawReviewRequests(pullRequest: PullRequestPayload): RawReviewRequest[] {
+  const users = (pullRequest.requested_reviewers || []).map(user => ({
+    requestedReviewer: { __typename: 'User', login: user.login },
+  }));
+  const teams = (pullRequest.requested_teams || []).map(team => ({
+    requestedReviewer: { __typename: 'Team', slug: team.slug },
+  }));
+  return [...users, ...teams];
+}
+
+/**
+ * Convert a REST `pull_request` payload into the GraphQL node shape returned by
+ * getOpenPRsGraphQL. Reviews, comments and timeline items aren't part of the payload, so
+ * they are carried over from the cached node when there is one.
+ */
+export function toRawPR(pullRequest: PullRequestPayload, existing?: RawPR): RawPR {
+  return {
+    ...existing,
+    number: pullRequest.number,
+    title: pullRequest.title,
+    url: pullRequest.html_url,
+    createdAt: pullRequest.created_at,
+    updatedAt: pullRequest.updated_at,
+    isDraft: Boolean(pullRequest.draft),
+    authorAssociation: pullRequest.author_association,
+    state: 'OPEN',
+    additions: pullRequest.additions ?? existing?.additions,
+    deletions: pullRequest.deletions ?? existing?.deletions,
+    changedFiles: pullRequest.changed_files ?? existing?.changedFiles,
+    author: pullRequest.user ? { login: pullRequest.user.login } : null,
+    labels: { nodes: (pullRequest.labels || []).map(label => ({ name: label.name })) },
+    reviewRequests: { nodes: toRawReviewRequests(pullRequest) },
+    reviews: existing?.reviews ?? { nodes: [] },
+    comments: existing?.comments ?? { nodes: [] },
+    reviewThreads: existing?.reviewThreads ?? { nodes: [] },
+    timelineItems: existing?.timelineItems ?? { nodes: [] },
+    // Webhook payloads often carry mergeable: null while GitHub recomputes it
+    mergeable: pullRequest.mergeable == null
+      ? existing?.mergeable ?? 'UNKNOWN'
+      : pullRequest.mergeable ? 'MERGEABLE' : 'CONFLICTING',
+    mergeStateStatus: pullRequest.mergeable_state
+      ? String(pullRequest.mergeable_state).toUpperCase()
+      : existing?.mergeStateStatus,
+    commits: existing?.commits ?? { nodes: [] },
+  };
+}
+
+// Signals a PR the cached set doesn't have, whose reviews, comments and timeline the payload can't supply
+const UNKNOWN_PR = 'unknown';
+
+function applyPullRequestEvent(prs: RawPR[], action: string | undefined, pullRequest: PullRequestPayload): boolean | typeof UNKNOWN_PR {
+  const index = prs.findIndex(pr => pr.number === pullRequest.number);
+
+  if (action === 'closed' || pullRequest.state === 'closed') {
+    if (index === -1) return false;
+    prs.splice(index, 1);
+    return true;
+  }
+
+  // Only a new PR is fully described by its payload; any other missing one (e.g. beyond the page cap) is refetched
+  if (index === -1 && action !== 'opened') return UNKNOWN_PR;
+
+  const updated = toRawPR(pullRequest, index === -1 ? undefined : prs[index]);
+
+  if (action === 'ready_for_review') {
+    updated.timelineItems = {
+      nodes: [
+        ...(updated.timelineItems?.nodes || []),
+        { __typename: 'ReadyForReviewEvent', createdAt: pullRequest.updated_at },
+      ],
+    };
+  }
+
+  if (action === 'synchronize') {
+    // New head commit: its checks haven't reported yet and mergeability is recomputed
+    updated.commits = { nodes: [] };
+    if (pullRequest.mergeable == null) {
+      updated.mergeable = 'UNKNOWN';
+      updated.mergeStateStatus = 'UNKNOWN';
+    }
+  }
+
+  if (index === -1) {
+    prs.unshift(updated);
+  } else {
+    prs[index] = updated;
+  }
+  return true;
+}
+
+function applyReviewEvent(prs: RawPR[], action: string | undefined, prNumber: number, review: ReviewPayload | undefined): boolean {
+  const pr = prs.find(p => p.number === prNumber);
+  if (!pr || action !== 'submitted' || !review?.submitted_at) return false;
+
+  const submittedAt = review.submitted_at;
+  const login = review.user?.login;
+  const nodes = pr.reviews?.nodes || [];
+  if (nodes.some(node => node.author?.login === login && node.submittedAt === submittedAt)) {
+    return false; // Redelivery
+  }
+
+  pr.reviews = {
+    ...pr.reviews,
+    nodes: [...nodes, { author: login ? { login } : null, state: String(review.state).toUpperCase(), submittedAt }],
+  };
+
+  // GitHub clears a user's pending review request once they submit a review
+  if (pr.reviewRequests?.nodes) {
+    pr.reviewRequests = {
+      ...pr.reviewRequests,
+      nodes: pr.reviewRequests.nodes.filter(req => req.requestedReviewer?.login !== login),
+    };
+  }
+
+  pr.updatedAt = submittedAt;
+  return true;
+}
+
+/**
+ * Record a new comment so it can count as the PR's first response. Issue
+ * comments go to `comments`; an inline review comment is added as its own
+ * thread in `reviewThreads` (only author and time matter downstream).
+ */
+function applyCommentEvent(
+  prs: RawPR[],
+  prNumber: number,
+  action: string | undefined,
+  comment: CommentPayload | undefined,
+  kind: 'comments' | 'reviewThreads'
+): boolean {
+  const pr = prs.find(p => p.number === prNumber);
+  if (!pr || !comment?.created_at) return false;
+
+  if (action !== 'deleted') {
+    const login = comment.user?.login;
+    const node: RawComment = { author: login ? { login } : null, createdAt: comment.created_at };
+    const isRedelivery = (comments: RawComment[]) =>
+      comments.some(c => c.author?.login === login && c.createdAt === node.createdAt);
+
+    if (kind === 'comments') {
+      const nodes = pr.comments?.nodes || [];
+      if (!isRedelivery(nodes)) {
+        pr.comments = { ...pr.comments, nodes: [...nodes, node] };
+      }
+    } else {
+      const threads = pr.reviewThreads?.nodes || [];
+      if (!isRedelivery(threads.flatMap(thread => thread.comments?.nodes || []))) {
+        pr.reviewThreads = { ...pr.reviewThreads, nodes: [...threads, { comments: { nodes: [node] } }] };
+      }
+    }
+  }
+
+  pr.updatedAt = comment.updated_at || comment.created_at;
+  return true;
+}
+
+/**
+ * Patch the cached raw PRs for the delivery's repo. Nothing is fetched from
+ * GitHub; if the repo isn't cached the delivery is a no-op and the next
+ * dashboard request fetches fresh data. An update to an open PR the cache
+ * doesn't hold drops the repo's cached PRs so the next request refetches them.
+ */
+export async function applyWebhookEvent(event: WebhookEvent, payload: WebhookPayload): Promise<WebhookResult> {
+  const owner = payload.repository?.owner?.login;
+  const repo = payload.repository?.name;
+  const { action, pull_request: pullRequest, issue } = payload;
+  const result: WebhookResult = { event, action, applied: false };
+
+  if (!owner || !repo) return result;
+  result.repo = `${owner}/${repo}`;
+
+  switch (event) {
+    case 'pull_request':
+      result.prNumber = pullRequest?.number;
+      if (!pullRequest) break;
+      if (action === 'closed') {
+        if (pullRequest.merged) {
+          await invalidateRepoMergedPRs(owner, repo);
+        } else {
+          await invalidateRepoClosedPRs(owner, repo);
+        }
+      }
+      let unknownPR = false;
+      result.applied = await patchRepoOpenPRs(owner, repo, prs => {
+        const outcome = applyPullRequestEvent(prs, action, pullRequest);
+        unknownPR = outcome === UNKNOWN_PR;
+        return outcome === true;
+      });
+      if (unknownPR) {
+        await invalidateRepoOpenPRs(owner, repo);
+        result.applied = true;
+      }
+      break;
+
+    case 'pull_request_review':
+      result.prNumber = pullRequest?.number;
+      if (!pullRequest) break;
+      result.applied = await patchRepoOpenPRs(owner, repo, prs =>
+        applyReviewEvent(prs, action, pullRequest.number, payload.review)
+      );
+      break;
+
+    case 'pull_request_review_comment':
+      result.prNumber = pullRequest?.number;
+      if (!pullRequest) break;
+      result.applied = await patchRepoOpenPRs(owner, repo, prs =>
+        applyCommentEvent(prs, pullRequest.number, action, payload.comment, 'reviewThreads')
+      );
+      break;
+
+    case 'issue_comment':
+      // Issue comments fire for plain issues too; only PR conversations matter here
+      if (!issue?.pull_request) break;
+      result.prNumber = issue.number;
+      result.applied = await patchRepoOpenPRs(owner, repo, prs =>
+        applyCommentEvent(prs, issue.number, action, payload.comment, 'comments')
+      );
+      break;
+  }
+
+  return result;
+}
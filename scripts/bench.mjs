@@ -2,21 +2,38 @@
 /**
  * Benchmark: sequential (main) vs parallel (perf/server-parallel) fetch.
  *
- * Reproduces the three GitHub GraphQL calls the route makes per repo and
+ * Reproduces the GitHub GraphQL calls the route makes per repo (open PRs and
+ * one merged-PR pass) and
  * times two strategies:
  *
- *   sequential — one repo at a time, three requests per repo in serial
+ *   sequential — one repo at a time, requests per repo in serial
  *                (mirrors the for-loop on main)
  *
- *   parallel   — all repos concurrently, three requests per repo concurrently
+ *   parallel   — all repos concurrently, requests per repo concurrently
  *                (mirrors the Promise.all on this branch)
  *
  * Usage:
  *   GITHUB_TOKEN=<token> node scripts/bench.mjs [--repos owner/repo,...]
+ *
+ * GITHUB_MODE=record saves every response under GITHUB_FIXTURES_DIR and
+ * GITHUB_MODE=replay serves them back without a token or network, which times
+ * only the client-side work. Both go through lib/githubRecorder.ts, and the
+ * GraphQL endpoint comes from lib/githubHosts.ts (GITHUB_GRAPHQL_URL, GHES), so
+ * the script and the app share one fixture format and one host config.
  */
 
+import { createRequire } from 'node:module';
+
+// Load the app's own TypeScript modules rather than copies of them
+const require = createRequire(import.meta.url);
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs', moduleResolution: 'node' } });
+const { config } = require('../lib/config.ts');
+const { fetchWithRecording } = require('../lib/githubRecorder.ts');
+const { hostForOwner } = require('../lib/githubHosts.ts');
+
+const MODE = config.github.mode;
 const TOKEN = process.env.GITHUB_TOKEN;
-if (!TOKEN) {
+if (!TOKEN && MODE !== 'replay') {
   console.error('Error: GITHUB_TOKEN is not set.');
   process.exit(1);
 }
@@ -34,23 +51,28 @@ const RUNS = 3;
 
 // ─── GraphQL helper ──────────────────────────────────────────────────────────
 
-async function gql(query, variables = {}) {
-  const res = await fetch('https://api.github.com/graphql', {
+async function gql(owner, query, variables = {}) {
+  const host = hostForOwner(owner);
+  const token = host.isEnterprise ? config.github.enterprise.token : TOKEN;
+  const options = {
     method: 'POST',
     headers: {
-      Authorization: `Bearer ${TOKEN}`,
+      Authorization: `Bearer ${token}`,
       'Content-Type': 'application/json',
       'User-Agent': 'pr-dashboard-bench/1.0',
     },
     body: JSON.stringify({ query, variables }),
-  });
-  if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
+  };
+
+  const res = await fetchWithRecording(host.graphqlUrl, options, () => fetch(host.graphqlUrl, options));
   const json = await res.json();
+
+  if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
   if (json.errors) throw new Error(json.errors[0].message);
   return json.data;
 }
 
-// ─── The three queries the route makes per repo (first page only) ─────────────
+// ─── The queries the route makes per repo (first page only) ──────────────────
 
 const OPEN_PRS = `
   query OpenPRs($owner: String!, $name: String!) {
@@ -65,32 +87,19 @@ const OPEN_PRS = `
 `;
 
 const MERGED_PRS = `
-  query MergedPRs($owner: String!, $name: String!) {
+  query MergedPRsWithTimeline($owner: String!, $name: String!) {
     repository(owner: $owner, name: $name) {
       pullRequests(states: MERGED, first: 50, orderBy: {field: UPDATED_AT, direction: DESC}) {
         pageInfo { hasNextPage }
         nodes {
-          number mergedAt
-          reviews(first: 10) { nodes { author { login } state submittedAt } }
-          timelineItems(first: 5, itemTypes: [REVIEW_REQUESTED_EVENT]) {
-            nodes { __typename ... on ReviewRequestedEvent { createdAt } }
-          }
-        }
-      }
-    }
-    rateLimit { remaining resetAt }
-  }
-`;
-
-const REVIEW_STATS = `
-  query ReviewStats($owner: String!, $name: String!) {
-    repository(owner: $owner, name: $name) {
-      pullRequests(states: MERGED, first: 50, orderBy: {field: UPDATED_AT, direction: DESC}) {
-        nodes {
-          number isDraft authorAssociation
-          reviews(first: 20) { nodes { author { login } state submittedAt } }
-          timelineItems(first: 5, itemTypes: [READY_FOR_REVIEW_EVENT]) {
-            nodes { __typename ... on ReadyForReviewEvent { createdAt } }
+          number mergedAt createdAt isDraft authorAssociation
+          timelineItems(first: 100, itemTypes: [REVIEW_REQUESTED_EVENT, READY_FOR_REVIEW_EVENT, PULL_REQUEST_REVIEW]) {
+            nodes {
+              __typename
+              ... on ReviewRequestedEvent { createdAt }
+              ... on ReadyForReviewEvent { createdAt }
+              ... on PullRequestReview { author { login } state submittedAt }
+            }
           }
         }
       }
@@ -99,25 +108,23 @@ const REVIEW_STATS = `
   }
 `;
 
-// ─── Per-repo fetch: runs all three queries ───────────────────────────────────
+// ─── Per-repo fetch: runs all queries ─────────────────────────────────────────
 
 async function fetchRepo(owner, name) {
   return Promise.all([
-    gql(OPEN_PRS,     { owner, name }),
-    gql(MERGED_PRS,   { owner, name }),
-    gql(REVIEW_STATS, { owner, name }),
+    gql(owner, OPEN_PRS,   { owner, name }),
+    gql(owner, MERGED_PRS, { owner, name }),
   ]);
 }
 
 async function fetchRepoSequential(owner, name) {
-  await gql(OPEN_PRS,     { owner, name });
-  await gql(MERGED_PRS,   { owner, name });
-  await gql(REVIEW_STATS, { owner, name });
+  await gql(owner, OPEN_PRS,   { owner, name });
+  await gql(owner, MERGED_PRS, { owner, name });
 }
 
 // ─── Strategies ──────────────────────────────────────────────────────────────
 
-// OLD (main): one repo at a time, three calls per repo in serial
+// OLD (main): one repo at a time, calls per repo in serial
 async function strategySequential(repos) {
   for (const r of repos) {
     const [owner, name] = r.split('/');
@@ -125,7 +132,7 @@ async function strategySequential(repos) {
   }
 }
 
-// NEW (this branch): all repos in parallel, three calls per repo in parallel
+// NEW (this branch): all repos in parallel, calls per repo in parallel
 async function strategyParallel(repos) {
   await Promise.all(repos.map(r => {
     const [owner, name] = r.split('/');